@@ -17,24 +17,90 @@
 // Node globals.
 var exports = {}, module = {exports: exports}, global=this;
 
-// Helper file to mock CommonJS require() loader.
-var require = function (name) {
-  var module = {exports: {}};
-  var found = ['./node_modules', '../../node_modules'].some(prefix => {
-    try {
-      prefix = prefix + "/" + name + "/";
-      var packageJsonPath = prefix + "package.json";
-      var packageJson = JSON.parse(readRelativeToScript(packageJsonPath));
-      var mainPath = prefix + packageJson.main;
-      var body = readRelativeToScript(mainPath);
-      var fn = new Function("module", "exports", "require", body);
-      fn.call(module, module, module.exports, require);
+// Helper file to mock CommonJS require() loader. Paths are relative to this
+// file, which readRelativeToScript resolves them against.
+var loadedModules = Object.create(null);
+
+function normalizePath(path) {
+  var parts = [];
+  path.split("/").forEach(part => {
+    if (part === "" || part === ".") return;
+    if (part === ".." && parts.length > 0 && parts[parts.length - 1] !== "..")
+      parts.pop();
+    else
+      parts.push(part);
+  });
+  return parts.join("/");
+}
+
+function dirname(path) {
+  var i = path.lastIndexOf("/");
+  return i < 0 ? "." : path.slice(0, i);
+}
+
+function readFile(path) {
+  try {
+    return readRelativeToScript(path);
+  } catch (_) {
+    return null;
+  }
+}
+
+// Loads a module once, giving it a require that resolves relative requires
+// against its own directory.
+function loadModule(path) {
+  var file = null, body = null;
+  [path, path + ".js", path + "/index.js"].some(candidate => {
+    if (candidate in loadedModules) {
+      file = candidate;
       return true;
-    } catch(_) {
-      return false;
     }
+    body = readFile(candidate);
+    if (body !== null) file = candidate;
+    return body !== null;
   });
-  if (!found)
-    throw new Error('Module ' + name + ' was not found');
+  if (file === null)
+    throw new Error('Module ' + path + ' was not found');
+  if (file in loadedModules)
+    return loadedModules[file].exports;
+  var module = {exports: {}};
+  loadedModules[file] = module;
+  var fn = new Function("module", "exports", "require", body);
+  fn.call(module, module, module.exports, createRequire(dirname(file)));
   return module.exports;
+}
+
+// Node built-in modules packages require without using them in the shell,
+// e.g. stream for wasmparser's WasmParserTransform.
+var builtinModules = {
+  stream: {
+    Transform: function () {
+      throw new Error('stream is not available in the shell');
+    }
+  }
 };
+
+function requirePackage(name) {
+  if (name in builtinModules)
+    return builtinModules[name];
+  var prefixes = ['./node_modules', '../../node_modules'];
+  for (var i = 0; i < prefixes.length; i++) {
+    var packagePath = normalizePath(prefixes[i] + "/" + name);
+    var packageJson = readFile(packagePath + "/package.json");
+    if (packageJson === null) continue;
+    var main = JSON.parse(packageJson).main || "index.js";
+    return loadModule(normalizePath(packagePath + "/" + main));
+  }
+  throw new Error('Module ' + name + ' was not found');
+}
+
+function createRequire(dir) {
+  return function (name) {
+    if (/^\.\.?\//.test(name))
+      return loadModule(normalizePath(dir + "/" + name));
+    return requirePackage(name);
+  };
+}
+
+// The scripts run with this file are the compiled wasdk sources in dist/.
+var require = createRequire("./dist");
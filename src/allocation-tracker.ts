@@ -0,0 +1,144 @@
+/*
+ * Copyright 2016 Mozilla Foundation
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export interface Allocation {
+  ptr: number;
+  size: number;
+  // Module calling _malloc.
+  module: string;
+  // Export that was running, e.g. "list.wasm._test".
+  caller: string;
+}
+
+// An invalid free is a free of a pointer that never came from _malloc.
+export type AllocationProblemKind = "double free" | "invalid free";
+
+export interface AllocationProblem {
+  kind: AllocationProblemKind;
+  ptr: number;
+  module: string;
+  caller: string;
+  // The allocation an already freed pointer belonged to.
+  allocation?: Allocation;
+}
+
+export interface ModuleLeaks {
+  module: string;
+  count: number;
+  bytes: number;
+  allocations: Allocation[];
+}
+
+/**
+ * Records the allocations made by the modules through the host's _malloc and
+ * _free. Freed pointers are remembered until they are allocated again, so that
+ * freeing them twice can be told apart from freeing a pointer that never came
+ * from _malloc.
+ */
+export class AllocationTracker {
+  live: { [ptr: number]: Allocation } = Object.create(null);
+  freed: { [ptr: number]: Allocation } = Object.create(null);
+  heapSize = 0;
+  peakHeapSize = 0;
+  mallocCount = 0;
+  freeCount = 0;
+  problems: AllocationProblem[] = [];
+  // Stack of the exports being run, innermost last.
+  callers: string[] = [];
+  onProblem: (problem: AllocationProblem) => void;
+
+  constructor(onProblem: (problem: AllocationProblem) => void = null) {
+    this.onProblem = onProblem;
+  }
+  caller(): string {
+    return this.callers.length > 0 ? this.callers[this.callers.length - 1] : "(runtime)";
+  }
+  malloc(ptr: number, size: number, module: string) {
+    this.mallocCount++;
+    if (ptr === 0) return;
+    delete this.freed[ptr];
+    this.live[ptr] = { ptr: ptr, size: size, module: module, caller: this.caller() };
+    this.heapSize += size;
+    this.peakHeapSize = Math.max(this.peakHeapSize, this.heapSize);
+  }
+  /**
+   * Records a call to _free, and returns false when the pointer isn't live
+   * and must not be passed on to the host.
+   */
+  free(ptr: number, module: string): boolean {
+    this.freeCount++;
+    if (ptr === 0) return true;
+    let allocation = this.live[ptr];
+    if (allocation) {
+      delete this.live[ptr];
+      this.freed[ptr] = allocation;
+      this.heapSize -= allocation.size;
+      return true;
+    }
+    let problem: AllocationProblem = {
+      kind: this.freed[ptr] ? "double free" : "invalid free",
+      ptr: ptr,
+      module: module,
+      caller: this.caller()
+    };
+    if (this.freed[ptr]) problem.allocation = this.freed[ptr];
+    this.problems.push(problem);
+    if (this.onProblem) this.onProblem(problem);
+    return false;
+  }
+  leaks(): ModuleLeaks[] {
+    let modules: { [module: string]: ModuleLeaks } = Object.create(null);
+    Object.keys(this.live).forEach(key => {
+      let allocation: Allocation = this.live[<any>key];
+      let leaks = modules[allocation.module] ||
+        (modules[allocation.module] = { module: allocation.module, count: 0, bytes: 0, allocations: [] });
+      leaks.count++;
+      leaks.bytes += allocation.size;
+      leaks.allocations.push(allocation);
+    });
+    return Object.keys(modules).map(module => modules[module]);
+  }
+}
+
+function hex(n: number): string {
+  return "0x" + (n >>> 0).toString(16);
+}
+
+export function formatAllocationProblem(problem: AllocationProblem): string {
+  let message = `${problem.kind} of ${hex(problem.ptr)} by ${problem.module} in ${problem.caller}`;
+  if (problem.allocation) {
+    message += `, allocated by ${problem.allocation.module} in ${problem.allocation.caller}`;
+  }
+  return message;
+}
+
+export function formatAllocationReport(tracker: AllocationTracker): string[] {
+  let lines = [`Allocations: ${tracker.mallocCount} malloc, ${tracker.freeCount} free, ` +
+               `peak heap usage ${tracker.peakHeapSize} bytes`];
+  let leaks = tracker.leaks();
+  if (leaks.length === 0) lines.push("No leaks.");
+  leaks.forEach(leak => {
+    lines.push(`Leaked by ${leak.module}: ${leak.bytes} bytes in ${leak.count} allocations`);
+    leak.allocations.forEach(allocation => {
+      lines.push(`  ${hex(allocation.ptr)}  ${allocation.size} bytes  in ${allocation.caller}`);
+    });
+  });
+  if (tracker.problems.length > 0) {
+    lines.push(`Errors: ${tracker.problems.length}`);
+    tracker.problems.forEach(problem => lines.push(`  ${formatAllocationProblem(problem)}`));
+  }
+  return lines;
+}
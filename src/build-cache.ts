@@ -0,0 +1,94 @@
+/*
+ * Copyright 2016 Mozilla Foundation
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as crypto from "crypto";
+import { ensureDirectoryCreatedSync, TMP_DIR, wasdkPath } from "./shared";
+
+export const CACHE_DIR = wasdkPath(path.join(TMP_DIR, "cache"));
+
+/**
+ * Every source gets a manifest, keyed on the source path, its contents, the
+ * compiler flags and the toolchain version, which lists the headers seen
+ * during the last compilation and the compiler command line that ran. The
+ * object file itself is keyed on the manifest key plus the current contents of
+ * those headers.
+ */
+interface SourceManifest {
+  headers: string [];
+  command: string [];
+}
+
+export interface CompileResult {
+  object: string;
+  headers: string [];
+  // Command line of the compilation that produced the object, the program
+  // followed by its arguments.
+  command: string [];
+  cached: boolean;
+}
+
+function hashString(s: string): string {
+  return crypto.createHash('sha256').update(s).digest('hex');
+}
+function hashFile(filePath: string): string {
+  if (!fs.existsSync(filePath)) return "missing";
+  return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+}
+function objectKey(sourceKey: string, headers: string []): string {
+  return hashString(sourceKey + headers.map(h => h + ":" + hashFile(h)).join("\n"));
+}
+
+export function parseDependencyFile(content: string): string [] {
+  let body = content.replace(/\\\r?\n/g, " ");
+  body = body.slice(body.search(/:(\s|$)/) + 1);
+  return body.replace(/\\ /g, "\0").split(/\s+/)
+    .filter(s => s.length > 0)
+    .map(s => s.replace(/\0/g, " "));
+}
+
+/**
+ * Returns an object file for the source, invoking `compile` only when there
+ * is no up-to-date object in the cache. The callback receives the object and
+ * Makefile-style dependency file paths it must produce, and returns the
+ * command line it ran.
+ */
+export function compileCached(source: string, args: string [], toolchain: string,
+                              compile: (object: string, depFile: string) => string []): CompileResult {
+  ensureDirectoryCreatedSync(CACHE_DIR);
+  let sourceKey = hashString([source, hashFile(source), args.join(" "), toolchain].join("\n"));
+  let manifestPath = path.join(CACHE_DIR, sourceKey + ".json");
+  if (fs.existsSync(manifestPath)) {
+    let manifest: SourceManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+    let object = path.join(CACHE_DIR, objectKey(sourceKey, manifest.headers) + ".o");
+    if (fs.existsSync(object) && manifest.command)
+      return { object: object, headers: manifest.headers, command: manifest.command, cached: true };
+  }
+
+  let tmpObject = path.join(CACHE_DIR, sourceKey + ".tmp.o");
+  let depFile = path.join(CACHE_DIR, sourceKey + ".d");
+  let command = compile(tmpObject, depFile);
+  let headers = parseDependencyFile(fs.readFileSync(depFile, 'utf8'))
+    .map(file => path.resolve(file))
+    .filter(file => file !== path.resolve(source));
+  fs.unlinkSync(depFile);
+  let object = path.join(CACHE_DIR, objectKey(sourceKey, headers) + ".o");
+  fs.renameSync(tmpObject, object);
+  let manifest: SourceManifest = { headers: headers, command: command };
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest));
+  return { object: object, headers: headers, command: command, cached: false };
+}
@@ -0,0 +1,181 @@
+/*
+ * Copyright 2016 Mozilla Foundation
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { CodeInfo, FunctionCode, functionName, rootFunctions } from './code-info';
+
+// Bytecode statistics and call graph analysis of `wasdk analyze`.
+
+export interface CallGraphAnalysis {
+  // Whether each function, by index, can be reached from the roots of the
+  // call graph, see rootFunctions.
+  reachable: boolean[];
+  // Groups of mutually recursive functions, and self-recursive functions.
+  cycles: number[][];
+}
+
+function definedFunction(info: CodeInfo, index: number): FunctionCode {
+  return info.functions[index - info.importedFunctionCount] || null;
+}
+
+export function analyzeCallGraph(info: CodeInfo): CallGraphAnalysis {
+  let callees = (index: number) => {
+    let f = definedFunction(info, index);
+    return f ? f.calls : [];
+  };
+
+  let reachable: boolean[] = [];
+  let worklist = rootFunctions(info);
+  while (worklist.length > 0) {
+    let index = worklist.pop();
+    if (reachable[index]) continue;
+    reachable[index] = true;
+    let f = definedFunction(info, index);
+    if (!f) continue;
+    worklist.push.apply(worklist, f.calls);
+  }
+
+  // Tarjan's strongly connected components algorithm.
+  let cycles: number[][] = [];
+  let order: number[] = [], lowLink: number[] = [], onStack: boolean[] = [];
+  let stack: number[] = [];
+  let counter = 0;
+  function visit(index: number) {
+    order[index] = lowLink[index] = counter++;
+    stack.push(index);
+    onStack[index] = true;
+    callees(index).forEach(callee => {
+      if (order[callee] === undefined) {
+        visit(callee);
+        lowLink[index] = Math.min(lowLink[index], lowLink[callee]);
+      } else if (onStack[callee]) {
+        lowLink[index] = Math.min(lowLink[index], order[callee]);
+      }
+    });
+    if (lowLink[index] !== order[index]) return;
+    let component = [];
+    let member;
+    do {
+      member = stack.pop();
+      onStack[member] = false;
+      component.unshift(member);
+    } while (member !== index);
+    if (component.length > 1 || callees(index).indexOf(index) >= 0) {
+      cycles.push(component);
+    }
+  }
+  info.functions.forEach(f => {
+    if (order[f.index] === undefined) visit(f.index);
+  });
+  return { reachable: reachable, cycles: cycles };
+}
+
+function sortedOpcodes(f: FunctionCode): string[] {
+  return Object.keys(f.opcodes).sort((a, b) => f.opcodes[b] - f.opcodes[a] || (a < b ? -1 : 1));
+}
+
+function escapeDOT(s: string): string {
+  return s.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+function padRight(s: string, l: number) {
+  while (s.length < l) s += " ";
+  return s;
+}
+
+export function formatCallGraphDOT(info: CodeInfo, analysis: CallGraphAnalysis): string {
+  let lines = [`digraph calls {`];
+  lines.push(`  node [shape=box];`);
+  let name = (index: number) => escapeDOT(functionName(info, index));
+  let hasIndirectCalls = false;
+  let count = info.importedFunctionCount + info.functions.length;
+  for (let index = 0; index < count; index++) {
+    let attributes = [`label="${name(index)}"`];
+    if (index < info.importedFunctionCount) attributes.push("shape=ellipse");
+    if (!analysis.reachable[index]) attributes.push("style=dashed");
+    lines.push(`  f${index} [${attributes.join(", ")}];`);
+  }
+  info.functions.forEach(f => {
+    f.calls.forEach(callee => lines.push(`  f${f.index} -> f${callee};`));
+    if (f.callIndirectCount > 0) {
+      hasIndirectCalls = true;
+      lines.push(`  f${f.index} -> call_indirect [style=dotted, label="${f.callIndirectCount}"];`);
+    }
+  });
+  if (hasIndirectCalls) {
+    lines.push(`  call_indirect [shape=diamond];`);
+    info.tableElements.filter((index, i, a) => a.indexOf(index) === i).forEach(index => {
+      lines.push(`  call_indirect -> f${index} [style=dotted];`);
+    });
+  }
+  lines.push(`}`);
+  return lines.join("\n");
+}
+
+/**
+ * Formats the statistics of the functions of a module, their unreachable
+ * functions and recursion cycles as text or JSON, or the call graph as DOT.
+ */
+export function formatAnalysis(info: CodeInfo, format: string): string {
+  let analysis = analyzeCallGraph(info);
+  let name = (index: number) => functionName(info, index);
+  let unreachable = info.functions.filter(f => !analysis.reachable[f.index]).map(f => name(f.index));
+  let cycles = analysis.cycles.map(cycle => cycle.map(name));
+  switch (format) {
+    case "json":
+      return JSON.stringify({
+        importedFunctions: info.importedFunctionCount,
+        functions: info.functions.map(f => ({
+          index: f.index,
+          name: name(f.index),
+          size: f.size,
+          instructionCount: f.instructionCount,
+          locals: f.locals,
+          maxDepth: f.maxDepth,
+          calls: f.calls,
+          callIndirectCount: f.callIndirectCount,
+          reachable: !!analysis.reachable[f.index],
+          opcodes: f.opcodes
+        })),
+        tableElements: info.tableElements,
+        unreachable: unreachable,
+        cycles: cycles
+      }, null, 2);
+    case "dot":
+      return formatCallGraphDOT(info, analysis);
+  }
+  let callEdges = 0, indirectSites = 0;
+  info.functions.forEach(f => {
+    callEdges += f.calls.length;
+    indirectSites += f.callIndirectCount;
+  });
+  let lines = [];
+  lines.push(`Functions: ${info.functions.length} defined, ${info.importedFunctionCount} imported`);
+  lines.push(`Calls: ${callEdges} direct call edges, ${indirectSites} call_indirect sites, ` +
+             `${info.tableElements.length} table elements`);
+  lines.push("");
+  lines.push(`${padRight("Instrs", 8)} ${padRight("Locals", 8)} ${padRight("Depth", 8)} ` +
+             `${padRight("Calls", 8)} ${padRight("Indirect", 8)} Function`);
+  info.functions.forEach(f => {
+    lines.push(`${padRight(f.instructionCount.toString(), 8)} ${padRight(f.locals.toString(), 8)} ` +
+               `${padRight(f.maxDepth.toString(), 8)} ${padRight(f.calls.length.toString(), 8)} ` +
+               `${padRight(f.callIndirectCount.toString(), 8)} ${name(f.index)}`);
+    lines.push("  " + sortedOpcodes(f).map(opcode => `${opcode}: ${f.opcodes[opcode]}`).join(", "));
+  });
+  lines.push("");
+  lines.push("Unreachable from exports: " + (unreachable.length > 0 ? unreachable.join(", ") : "none"));
+  lines.push("Recursion cycles:" + (cycles.length > 0 ? "" : " none"));
+  cycles.forEach(cycle => lines.push("  " + cycle.concat(cycle[0]).join(" -> ")));
+  return lines.join("\n");
+}
@@ -0,0 +1,198 @@
+/*
+ * Copyright 2016 Mozilla Foundation
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  BinaryReader, BinaryReaderState, SectionCode, bytesToString, INameEntry,
+  IImportEntry, ISectionInformation, IElementSegmentBody, IExportEntry,
+  IStartEntry, IOperatorInformation, IFunctionNameEntry, IFunctionInformation,
+  ExternalKind, NameType, OperatorCode, OperatorCodeNames
+} from 'wasmparser';
+
+export interface FunctionCode {
+  // Index in the function index space, i.e. imported functions first.
+  index: number;
+  // Offset of the function body in the module, at its size.
+  offset: number;
+  // Size of the function body in bytes, including its size and locals.
+  size: number;
+  // Indices of the directly called functions, without duplicates.
+  calls: number[];
+  callIndirectCount: number;
+  // Number of times each operator occurs, by operator name.
+  opcodes: { [name: string]: number };
+  instructionCount: number;
+  locals: number;
+  // Maximum nesting of block, loop and if.
+  maxDepth: number;
+}
+
+export interface CodeInfo {
+  importedFunctionCount: number;
+  functions: FunctionCode[];
+  // Function names by function index, from the name section or the import
+  // entries.
+  names: string[];
+  exportedFunctions: number[];
+  start: number;
+  // Functions placed in tables, i.e. possible call_indirect targets.
+  tableElements: number[];
+}
+
+function varUintSize(n: number): number {
+  let size = 1;
+  while (n >= 0x80) {
+    n = Math.floor(n / 0x80);
+    size++;
+  }
+  return size;
+}
+
+export function functionName(info: CodeInfo, index: number): string {
+  return info.names[index] || `func${index}`;
+}
+
+/**
+ * Returns the roots of the call graph, without duplicates: the exports, the
+ * start function and the table elements, which the host can call through an
+ * exported table. Functions not reachable from them are dead code.
+ */
+export function rootFunctions(info: CodeInfo): number[] {
+  let roots = info.exportedFunctions.concat(info.tableElements);
+  if (info.start !== null) roots.push(info.start);
+  return roots.filter((index, i) => roots.indexOf(index) === i);
+}
+
+/**
+ * Reads the function bodies of a module, decoding their operators to find the
+ * calls between functions and to count the operators.
+ */
+export function readCodeInfo(wasm: Uint8Array): CodeInfo {
+  let reader = new BinaryReader();
+  reader.setData(wasm.buffer, wasm.byteOffset, wasm.byteLength);
+
+  let info: CodeInfo = {
+    importedFunctionCount: 0,
+    functions: [],
+    names: [],
+    exportedFunctions: [],
+    start: null,
+    tableElements: []
+  };
+  let current: FunctionCode = null;
+  let depth = 0;
+  let functionStartAt;
+  let lastPosition = reader.position;
+parsing:
+  while (reader.read()) {
+    switch (reader.state) {
+      case BinaryReaderState.END_WASM:
+        break parsing;
+      case BinaryReaderState.ERROR:
+        throw reader.error;
+      case BinaryReaderState.BEGIN_SECTION:
+        let sectionInfo = <ISectionInformation>reader.result;
+        if (sectionInfo.id != SectionCode.Code &&
+            sectionInfo.id != SectionCode.Import &&
+            sectionInfo.id != SectionCode.Export &&
+            sectionInfo.id != SectionCode.Start &&
+            sectionInfo.id != SectionCode.Element &&
+            !(sectionInfo.id == SectionCode.Custom && bytesToString(sectionInfo.name) == "name")) {
+          reader.skipSection();
+        }
+        break;
+      case BinaryReaderState.IMPORT_SECTION_ENTRY:
+        let importEntry = <IImportEntry>reader.result;
+        if (importEntry.kind != ExternalKind.Function)
+          break;
+        info.names[info.importedFunctionCount++] =
+          bytesToString(importEntry.module) + "." + bytesToString(importEntry.field);
+        break;
+      case BinaryReaderState.EXPORT_SECTION_ENTRY:
+        let exportEntry = <IExportEntry>reader.result;
+        if (exportEntry.kind == ExternalKind.Function)
+          info.exportedFunctions.push(exportEntry.index);
+        break;
+      case BinaryReaderState.START_SECTION_ENTRY:
+        info.start = (<IStartEntry>reader.result).index;
+        break;
+      case BinaryReaderState.ELEMENT_SECTION_ENTRY_BODY:
+        let elements = (<IElementSegmentBody>reader.result).elements;
+        for (let i = 0; i < elements.length; i++)
+          info.tableElements.push(elements[i]);
+        break;
+      case BinaryReaderState.NAME_SECTION_ENTRY:
+        if ((<INameEntry>reader.result).type !== NameType.Function)
+          break;
+        (<IFunctionNameEntry>reader.result).names.forEach(naming => {
+          info.names[naming.index] = bytesToString(naming.name);
+        });
+        break;
+      case BinaryReaderState.BEGIN_FUNCTION_BODY:
+        functionStartAt = lastPosition;
+        let locals = 0;
+        (<IFunctionInformation>reader.result).locals.forEach(l => locals += l.count);
+        current = {
+          index: info.importedFunctionCount + info.functions.length,
+          offset: functionStartAt,
+          size: 0,
+          calls: [],
+          callIndirectCount: 0,
+          opcodes: Object.create(null),
+          instructionCount: 0,
+          locals: locals,
+          maxDepth: 0
+        };
+        depth = 0;
+        break;
+      case BinaryReaderState.CODE_OPERATOR:
+        let op = <IOperatorInformation>reader.result;
+        let opName = OperatorCodeNames[op.code];
+        current.opcodes[opName] = (current.opcodes[opName] || 0) + 1;
+        current.instructionCount++;
+        switch (op.code) {
+          case OperatorCode.block:
+          case OperatorCode.loop:
+          case OperatorCode.if:
+            depth++;
+            current.maxDepth = Math.max(current.maxDepth, depth);
+            break;
+          case OperatorCode.end:
+            depth--;
+            break;
+          case OperatorCode.call:
+            if (current.calls.indexOf(op.funcIndex) < 0) current.calls.push(op.funcIndex);
+            break;
+          case OperatorCode.call_indirect:
+            current.callIndirectCount++;
+            break;
+        }
+        break;
+      case BinaryReaderState.END_FUNCTION_BODY:
+        current.size = reader.position - functionStartAt;
+        info.functions.push(current);
+        current = null;
+        break;
+    }
+    lastPosition = reader.position;
+  }
+  // The first body was read together with the count of function bodies.
+  if (info.functions.length > 0) {
+    let countSize = varUintSize(info.functions.length);
+    info.functions[0].offset += countSize;
+    info.functions[0].size -= countSize;
+  }
+  return info;
+}
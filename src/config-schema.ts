@@ -0,0 +1,220 @@
+/*
+ * Copyright 2016 Mozilla Foundation
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as fs from "fs";
+
+export interface Schema {
+  type: string | string [];
+  properties?: { [name: string]: Schema };
+  // Schema of the keys not listed in properties. When omitted, unknown keys
+  // are reported as errors.
+  additionalProperties?: Schema;
+  keyPattern?: RegExp;
+  items?: Schema;
+  required?: string [];
+}
+
+const stringArray: Schema = { type: "array", items: { type: "string" } };
+
+const compilerOptionsSchema: Schema = {
+  type: "object",
+  properties: {
+    optimizationLevel: { type: ["string", "number"] },
+    defines: {
+      type: "object",
+      additionalProperties: { type: ["string", "number", "boolean"] }
+    },
+    includeDirs: stringArray,
+    std: { type: "string" },
+    exceptions: { type: "boolean" },
+    debugInfo: { type: "boolean" },
+    flags: stringArray
+  }
+};
+
+// Emscripten settings, passed to emcc as `-s NAME=VALUE`. Settings besides the
+// listed ones are accepted as long as they look like setting names.
+const optionsSchema: Schema = {
+  type: "object",
+  properties: {
+    EXPORTED_RUNTIME_METHODS: stringArray,
+    EXPORTED_FUNCTIONS: stringArray,
+    SIDE_MODULE: { type: "number" },
+    ALLOW_MEMORY_GROWTH: { type: "number" },
+    RELOCATABLE: { type: "number" },
+    VERBOSE: { type: "number" },
+    NO_FILESYSTEM: { type: "number" },
+    NO_EXIT_RUNTIME: { type: "number" },
+    BINARYEN_IMPRECISE: { type: "number" }
+  },
+  additionalProperties: { type: ["number", "string", "array"] },
+  keyPattern: /^[A-Z][A-Z0-9_]*$/
+};
+
+const profileSchema: Schema = {
+  type: "object",
+  properties: {
+    compilerOptions: compilerOptionsSchema,
+    options: optionsSchema
+  }
+};
+
+function moduleProperties(): { [name: string]: Schema } {
+  return {
+    files: stringArray,
+    dependencies: stringArray,
+    interface: { type: "string" },
+    idlOutput: { type: "string" },
+    output: { type: "string" },
+    compilerOptions: compilerOptionsSchema,
+    profiles: { type: "object", additionalProperties: profileSchema },
+    options: optionsSchema
+  };
+}
+
+// `files` may be inherited from the top level, so it's checked once the
+// targets are merged, by validateRequiredKeys.
+const targetSchema: Schema = {
+  type: "object",
+  properties: moduleProperties()
+};
+targetSchema.properties["name"] = { type: "string" };
+targetSchema.properties["dependsOn"] = stringArray;
+targetSchema.properties["externals"] = stringArray;
+
+export const configSchema: Schema = {
+  type: "object",
+  properties: moduleProperties()
+};
+configSchema.properties["targets"] = { type: "array", items: targetSchema };
+configSchema.properties["extends"] = { type: "string" };
+
+function typeOf(value: any): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+export function editDistance(a: string, b: string): number {
+  let prev = [];
+  for (let j = 0; j <= b.length; j++) prev[j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    let curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      let cost = a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+export function suggest(name: string, candidates: string []): string {
+  let best = null, bestDistance = Math.max(1, Math.floor(name.length / 4)) + 1;
+  candidates.forEach(candidate => {
+    let distance = editDistance(name, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+function validateValue(value: any, schema: Schema, jsonPath: string, errors: string [],
+                       warnings: string []) {
+  let types = Array.isArray(schema.type) ? <string []>schema.type : [<string>schema.type];
+  let actual = typeOf(value);
+  if (types.indexOf("any") < 0 && types.indexOf(actual) < 0) {
+    errors.push(`${jsonPath}: expected ${types.join(" or ")}, found ${actual}`);
+    return;
+  }
+  if (actual === "array" && schema.items) {
+    (<any []>value).forEach((item, i) => {
+      validateValue(item, schema.items, `${jsonPath}[${i}]`, errors, warnings);
+    });
+  }
+  if (actual !== "object") return;
+  let known = Object.keys(schema.properties || {});
+  (schema.required || []).forEach(name => {
+    if (!(name in value)) errors.push(`${jsonPath}: missing required key "${name}"`);
+  });
+  Object.keys(value).forEach(name => {
+    let childPath = `${jsonPath}.${name}`;
+    if (schema.properties && schema.properties[name]) {
+      validateValue(value[name], schema.properties[name], childPath, errors, warnings);
+      return;
+    }
+    let suggestion = suggest(name, known);
+    let matchesPattern = !schema.keyPattern || schema.keyPattern.test(name);
+    if (!schema.additionalProperties || !matchesPattern) {
+      errors.push(`${childPath}: unknown key` +
+                  (suggestion ? `, did you mean "${suggestion}"?` : ""));
+      return;
+    }
+    // A valid key close to a known one, e.g. a setting the schema doesn't
+    // list, may well be intended.
+    if (suggestion)
+      warnings.push(`${childPath}: unknown key, did you mean "${suggestion}"?`);
+    validateValue(value[name], schema.additionalProperties, childPath, errors, warnings);
+  });
+}
+
+/**
+ * Validates a parsed ez config file and returns the list of errors, each
+ * prefixed with the JSON path of the offending value. Likely typos that are
+ * still valid keys are added to warnings.
+ */
+export function validateConfig(json: any, warnings: string [] = []): string [] {
+  let errors = [];
+  validateValue(json, configSchema, "$", errors, warnings);
+  return errors;
+}
+
+/**
+ * Checks the keys that may come from a base config, once all `extends` are
+ * merged.
+ */
+export function validateRequiredKeys(json: any): string [] {
+  let errors = [];
+  if (!json.targets && !json.files)
+    errors.push(`$: missing required key "files"`);
+  (json.targets || []).forEach((target, i) => {
+    if (!json.files && !target.files)
+      errors.push(`$.targets[${i}]: missing required key "files"`);
+  });
+  return errors;
+}
+
+export function formatConfigErrors(configPath: string, errors: string []): string {
+  return `Invalid config ${configPath || ""}:\n  ${errors.join("\n  ")}`;
+}
+
+/**
+ * Checks that the files a resolved config refers to exist.
+ */
+export function checkConfigFiles(config: any, errors: string [] = []): string [] {
+  config.files.forEach((file, i) => {
+    if (!fs.existsSync(file)) errors.push(`files[${i}]: file not found: ${file}`);
+  });
+  if (config.interface && !fs.existsSync(config.interface))
+    errors.push(`interface: file not found: ${config.interface}`);
+  (config.compilerOptions.includeDirs || []).forEach((dir, i) => {
+    if (!fs.existsSync(dir))
+      errors.push(`compilerOptions.includeDirs[${i}]: directory not found: ${dir}`);
+  });
+  return errors;
+}
@@ -5,6 +5,8 @@ declare let readRelativeToScript: any;
 declare var scriptArgs: any;
 declare let wasmTextToBinary: any;
 declare let wasmExtractCode: any;
+declare let printErr: any;
+declare let quit: any;
 
 declare interface Promise<T> { }
 
@@ -41,9 +43,22 @@ declare interface WebAssemblyModule {
 
 }
 
+declare interface WebAssemblyModuleImportDescriptor {
+  module: string;
+  name: string;
+  kind: string;
+}
+
+declare interface WebAssemblyModuleExportDescriptor {
+  name: string;
+  kind: string;
+}
+
 declare interface WebAssemblyModuleConstructor {
   readonly prototype: WebAssemblyModule;
   new (bytes: BufferSource): WebAssemblyModule;
+  imports: (module: WebAssemblyModule) => WebAssemblyModuleImportDescriptor[];
+  exports: (module: WebAssemblyModule) => WebAssemblyModuleExportDescriptor[];
 }
 
 declare interface WebAssemblyTableDescriptor {
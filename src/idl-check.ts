@@ -0,0 +1,132 @@
+/*
+ * Copyright 2016 Mozilla Foundation
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { ModuleInterface, FunctionSignature, signatureToString, RUNTIME_EXPORTS } from "./module-info";
+import { ExternalKind } from "wasmparser";
+var WebIDL2 = require('webidl2');
+
+// Checks that a compiled module exports the operations of the Module interface
+// of its WebIDL file, with matching signatures.
+
+export interface IdlOperation {
+  name: string;
+  // IDL types of the parameters and of the result.
+  params: string[];
+  returnType: string;
+}
+
+export type ConformanceIssueKind = "missing" | "arity" | "type" | "extra";
+
+export interface ConformanceIssue {
+  kind: ConformanceIssueKind;
+  // Name of the export.
+  name: string;
+  message: string;
+}
+
+function typeName(idlType: any): string {
+  if (typeof idlType.idlType === "string") return idlType.idlType;
+  return "object";
+}
+
+/**
+ * Returns the operations of the Module interface, or null when the IDL doesn't
+ * declare one.
+ */
+export function parseIdlOperations(idl: string): IdlOperation[] {
+  let module = WebIDL2.parse(idl).filter(d => d.type === "interface" && d.name === "Module")[0];
+  if (!module) return null;
+  return module.members.filter(m => m.type === "operation" && m.name).map(m => ({
+    name: m.name,
+    params: m.arguments.map(a => typeName(a.idlType)),
+    returnType: typeName(m.idlType)
+  }));
+}
+
+/**
+ * Maps an IDL type to the wasm value type it is passed as: numbers by their
+ * size, and strings, interfaces and other objects as i32 pointers. Returns
+ * null for void.
+ */
+export function idlTypeToValueType(type: string): string {
+  switch (type.replace(/^(unsigned|unrestricted) /, "")) {
+    case "void":
+      return null;
+    case "long long":
+    case "i64":
+      return "i64";
+    case "float":
+    case "f32":
+      return "f32";
+    case "double":
+    case "f64":
+      return "f64";
+  }
+  return "i32";
+}
+
+export function idlSignature(operation: IdlOperation): FunctionSignature {
+  let result = idlTypeToValueType(operation.returnType);
+  return {
+    params: operation.params.map(idlTypeToValueType),
+    returns: result ? [result] : []
+  };
+}
+
+/**
+ * Compares the IDL operations, exported with a leading underscore, with the
+ * function exports of a module. Exports listed in `declared` are expected
+ * without being in the IDL.
+ */
+export function checkConformance(operations: IdlOperation[], moduleInterface: ModuleInterface,
+                                 declared: string[] = []): ConformanceIssue[] {
+  let issues: ConformanceIssue[] = [];
+  let functions = Object.create(null);
+  moduleInterface.exports.filter(e => e.kind === ExternalKind.Function).forEach(e => {
+    functions[e.field] = e;
+  });
+  let expected = Object.create(null);
+  operations.forEach(operation => {
+    let name = "_" + operation.name;
+    expected[name] = true;
+    let entry = functions[name];
+    if (!entry) {
+      issues.push({ kind: "missing", name: name, message: `${name} is declared in the IDL but not exported` });
+      return;
+    }
+    let idl = idlSignature(operation);
+    let wasm = entry.signature;
+    if (idl.params.length !== wasm.params.length) {
+      issues.push({
+        kind: "arity", name: name,
+        message: `${name} takes ${idl.params.length} parameter(s) in the IDL but ${wasm.params.length} in the module`
+      });
+    } else if (signatureToString(idl) !== signatureToString(wasm)) {
+      issues.push({
+        kind: "type", name: name,
+        message: `${name} is ${signatureToString(idl)} in the IDL but ${signatureToString(wasm)} in the module`
+      });
+    }
+  });
+  Object.keys(functions).forEach(name => {
+    if (expected[name] || RUNTIME_EXPORTS.indexOf(name) >= 0 || declared.indexOf(name) >= 0) return;
+    issues.push({ kind: "extra", name: name, message: `${name} is exported but not declared in the IDL` });
+  });
+  return issues;
+}
+
+export function formatConformanceIssues(issues: ConformanceIssue[]): string[] {
+  return issues.map(issue => `${issue.kind === "extra" ? "warning" : "error"}: ${issue.message}`);
+}
@@ -0,0 +1,138 @@
+/*
+ * Copyright 2016 Mozilla Foundation
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+var WebIDL2 = require('webidl2');
+
+// TypeScript declarations of the bindings generated from a WebIDL file.
+//
+// Objects of IDL interfaces live in the module's memory, so the bindings pass
+// them around as pointers: numbers branded with the name of the interface they
+// point to, `Pointer<"List">`. The brand is a required property, so neither a
+// plain number nor a `Pointer<"Node">` is accepted where a `Pointer<"List">` is
+// expected.
+//
+// The declarations stick to TypeScript 2, which has neither bigint nor the
+// WebAssembly types: `long long` values are numbers, exact up to 2^53, and the
+// memory is anything with a `buffer`.
+
+const NUMBER_TYPES = [
+  "byte", "octet", "short", "long", "long long", "float", "double", "i32", "i64", "f32", "f64"
+];
+
+interface TypeContext {
+  // Enums and typedefs, which are referred to by name.
+  aliases: { [name: string]: boolean };
+}
+
+function tsType(idlType: any, context: TypeContext): string {
+  let type: string;
+  if (idlType.sequence || idlType.array) {
+    type = `${tsType(idlType.idlType, context)}[]`;
+  } else if (idlType.union) {
+    type = idlType.idlType.map(t => tsType(t, context)).join(" | ");
+  } else if (typeof idlType.idlType !== "string") {
+    throw new Error(`Unsupported IDL type: ${idlType.generic || JSON.stringify(idlType.idlType)}`);
+  } else {
+    let name = idlType.idlType.replace(/^(unsigned|unrestricted) /, "");
+    if (NUMBER_TYPES.indexOf(name) >= 0) {
+      type = "number";
+    } else if (name === "boolean") {
+      type = "boolean";
+    } else if (name === "DOMString" || name === "ByteString" || name === "USVString") {
+      type = "string";
+    } else if (name === "void" || name === "any" || name === "object" || context.aliases[name]) {
+      type = name;
+    } else {
+      type = `Pointer<${JSON.stringify(name)}>`;
+    }
+  }
+  return idlType.nullable ? `${type} | null` : type;
+}
+
+function operationDeclaration(operation: any, context: TypeContext): string {
+  let params = operation.arguments.map(a =>
+    `${a.variadic ? "..." : ""}${a.name}${a.optional ? "?" : ""}: ${tsType(a.idlType, context)}` +
+    (a.variadic ? "[]" : ""));
+  return `${operation.name}(${params.join(", ")}): ${tsType(operation.idlType, context)};`;
+}
+
+function memberDeclarations(members: any[], context: TypeContext): string[] {
+  let lines = [];
+  members.forEach(member => {
+    if (member.type === "attribute") {
+      lines.push(`  ${member.readonly ? "readonly " : ""}${member.name}: ${tsType(member.idlType, context)};`);
+    } else if (member.type === "operation" && member.name) {
+      lines.push(`  ${operationDeclaration(member, context)}`);
+    } else if (member.type === "const") {
+      lines.push(`  readonly ${member.name}: ${tsType(member.idlType, context)};`);
+    }
+  });
+  return lines;
+}
+
+/**
+ * Returns the declarations of the types of the IDL: `Pointer`, the declared
+ * interfaces with their attributes and operations, and `Module`, the type of
+ * the bindings. Throws on IDL types that have no TypeScript equivalent.
+ */
+export function generateIdlTypes(idl: string): string[] {
+  let definitions = WebIDL2.parse(idl);
+  let context: TypeContext = { aliases: Object.create(null) };
+  definitions.filter(d => d.type === "enum" || d.type === "typedef").forEach(d => {
+    context.aliases[d.name] = true;
+  });
+  let declared: { [name: string]: boolean } = Object.create(null);
+  let dts = [];
+  dts.push(`/** Address of an object of the interface named T in the memory of the module. */`);
+  dts.push(`export type Pointer<T extends string> = number & { readonly __brand: T };`);
+  dts.push(``);
+  definitions.forEach(definition => {
+    if (definition.type === "interface" || definition.type === "dictionary") {
+      declared[definition.name] = true;
+      let base = definition.inheritance ? ` extends ${definition.inheritance}` : "";
+      dts.push(`export interface ${definition.name}${base} {`);
+      dts = dts.concat(memberDeclarations(definition.members, context));
+      dts.push(`}`);
+      dts.push(``);
+    } else if (definition.type === "enum") {
+      declared[definition.name] = true;
+      dts.push(`export type ${definition.name} = ${definition.values.map(v => JSON.stringify(v.value || v)).join(" | ")};`);
+      dts.push(``);
+    } else if (definition.type === "typedef") {
+      declared[definition.name] = true;
+      dts.push(`export type ${definition.name} = ${tsType(definition.idlType, context)};`);
+      dts.push(``);
+    }
+  });
+  if (!declared["Module"]) {
+    dts.push(`export interface Module {}`);
+    dts.push(``);
+  }
+  return dts;
+}
+
+/**
+ * Returns the contents of the .d.ts file of the bindings generated from an
+ * IDL file. The generated JS wrapper is called with the exports and the
+ * memory of an instance, as the ES module loader does, and returns the
+ * bindings.
+ */
+export function generateIdlDeclarations(idl: string, idlFileName: string): string {
+  let dts = [`// Generated by wasdk from ${idlFileName}.`, ``];
+  dts = dts.concat(generateIdlTypes(idl));
+  dts.push(`declare function createBindings(exports: { [name: string]: any }, memory: { buffer: ArrayBuffer }): Module;`);
+  dts.push(`export default createBindings;`);
+  return dts.join("\n") + "\n";
+}
@@ -0,0 +1,180 @@
+/*
+ * Copyright 2016 Mozilla Foundation
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// Regeneration of the outputs of `wasdk idl`. The .h and .cpp files may have
+// been edited by hand, so they are merged with the generated code, and the
+// method bodies the merge drops or replaces are reported.
+import * as fs from "fs";
+
+export interface IdlOutput {
+  path: string;
+  // Contents to write, and current contents, null when the file is missing.
+  content: string;
+  old: string;
+  // Whether the file is merged with the user's edits rather than overwritten.
+  merged: boolean;
+  conflicts: BodyConflict[];
+}
+
+export interface FunctionDefinition {
+  // Name as written, e.g. "List::addNode".
+  name: string;
+  // Parameter list, with whitespace and comments collapsed to single spaces.
+  params: string;
+  body: string;
+  line: number;
+}
+
+// A method body the merge dropped because it has no matching IDL operation
+// anymore, or a hand-edited body the merge replaced with the generated one.
+// Functions without an IDL operation that the merge keeps, such as helpers,
+// aren't reported.
+export type BodyConflictKind = "dropped" | "overwritten";
+
+export interface BodyConflict {
+  kind: BodyConflictKind;
+  path: string;
+  name: string;
+  params: string;
+  line: number;
+}
+
+const KEYWORDS = ["if", "for", "while", "switch", "catch", "return", "sizeof"];
+
+// Replaces comments and string and character literals with spaces, keeping
+// newlines, so that offsets in the result match the code.
+function blankCommentsAndStrings(code: string): string {
+  return code.replace(/\/\/[^\n]*|\/\*[\s\S]*?\*\/|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'/g,
+                      s => s.replace(/[^\n]/g, " "));
+}
+
+function matchingBrace(code: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < code.length; i++) {
+    if (code[i] === "{") depth++;
+    else if (code[i] === "}" && --depth === 0) return i;
+  }
+  return code.length - 1;
+}
+
+function lineAt(code: string, offset: number): number {
+  return code.slice(0, offset).split("\n").length;
+}
+
+/**
+ * Finds the function and method definitions of C/C++ code, outside of other
+ * function bodies, by looking for a parameter list right before an opening
+ * brace.
+ */
+export function findFunctionDefinitions(code: string): FunctionDefinition[] {
+  let stripped = blankCommentsAndStrings(code);
+  let definitions: FunctionDefinition[] = [];
+  let headerStart = 0;
+  for (let i = 0; i < stripped.length; i++) {
+    let c = stripped[i];
+    if (c === ";" || c === "}") {
+      headerStart = i + 1;
+    } else if (c === "{") {
+      let header = stripped.slice(headerStart, i);
+      let match = /([A-Za-z_~][\w:~]*)\s*\(([^()]*(?:\([^()]*\)[^()]*)*)\)\s*(?:const\s*)?(?:noexcept\s*)?(?:override\s*)?$/.exec(header);
+      if (match && KEYWORDS.indexOf(match[1]) < 0) {
+        let end = matchingBrace(stripped, i);
+        definitions.push({
+          name: match[1],
+          params: normalizeCode(match[2]),
+          body: code.slice(i, end + 1),
+          line: lineAt(code, headerStart + match.index)
+        });
+        i = end;
+      }
+      headerStart = i + 1;
+    }
+  }
+  return definitions;
+}
+
+function normalizeCode(code: string): string {
+  return code.replace(/\s+/g, " ").trim();
+}
+
+function signature(definition: FunctionDefinition): string {
+  return `${definition.name}(${definition.params})`;
+}
+
+/**
+ * Compares the functions of a file before and after merging it with the code
+ * generated from the IDL. Functions are matched by name and parameter list, so
+ * that overloads are compared separately.
+ */
+export function findBodyConflicts(path: string, old: string, generated: string,
+                                  merged: string): BodyConflict[] {
+  let bySignature = (definitions: FunctionDefinition[]) => {
+    let map: { [name: string]: FunctionDefinition } = Object.create(null);
+    definitions.forEach(d => { map[signature(d)] = d; });
+    return map;
+  };
+  let generatedFunctions = bySignature(findFunctionDefinitions(generated));
+  let mergedFunctions = bySignature(findFunctionDefinitions(merged));
+  let conflicts: BodyConflict[] = [];
+  findFunctionDefinitions(old).forEach(d => {
+    let kind: BodyConflictKind = null;
+    let fresh = generatedFunctions[signature(d)];
+    let result = mergedFunctions[signature(d)];
+    if (!fresh) {
+      if (!result) kind = "dropped";
+    } else if (normalizeCode(d.body) !== normalizeCode(fresh.body) &&
+               (!result || normalizeCode(result.body) !== normalizeCode(d.body))) {
+      kind = "overwritten";
+    }
+    if (kind) conflicts.push({ kind: kind, path: path, name: d.name, params: d.params, line: d.line });
+  });
+  return conflicts;
+}
+
+export function formatBodyConflict(conflict: BodyConflict, backup?: string): string {
+  let location = `${conflict.path}:${conflict.line}: ${conflict.name}(${conflict.params})`;
+  let saved = backup ? `, see ${backup}` : "";
+  switch (conflict.kind) {
+    case "dropped":
+      return `${location} has no matching IDL operation, its body is dropped${saved}`;
+    case "overwritten":
+      return `${location} was edited, its body is replaced with the generated one${saved}`;
+  }
+}
+
+function pad(n: number, length: number = 2): string {
+  let s = String(n);
+  while (s.length < length) s = "0" + s;
+  return s;
+}
+
+// Backups are named after the time of the regeneration, down to the
+// millisecond, e.g. list.cpp.20161019-142501.123.bak. A counter is added when
+// that name is taken, so backups never overwrite each other.
+export function backupPath(path: string, date: Date = new Date()): string {
+  let stamp = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-` +
+              `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}.` +
+              pad(date.getMilliseconds(), 3);
+  let backup = `${path}.${stamp}.bak`;
+  for (let n = 1; fs.existsSync(backup); n++) {
+    backup = `${path}.${stamp}-${n}.bak`;
+  }
+  return backup;
+}
+
+export function isChanged(output: IdlOutput): boolean {
+  return output.old !== output.content;
+}
@@ -0,0 +1,151 @@
+/*
+ * Copyright 2016 Mozilla Foundation
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/// <reference path="./globals.d.ts"/>
+
+import { RUNTIME_EXPORTS } from './module-info';
+
+export type SymbolPrecedence = "first" | "last";
+
+export interface SymbolDefinition {
+  name: string;
+  value: any;
+  // Name of the module exporting the symbol.
+  definedBy: string;
+}
+
+export type ImportStatus = "provided" | "stubbed" | "missing";
+
+export interface ImportDiagnostic {
+  name: string;
+  kind: string;
+  status: ImportStatus;
+  // Name of the module exporting the symbol, or "runtime" for the symbols the
+  // runtime provides; null when missing.
+  providedBy: string;
+}
+
+export interface DuplicateSymbol {
+  name: string;
+  definedBy: string[];
+  // The definition each module importing the symbol was linked to. With the
+  // "last" precedence, modules loaded at different times may get different
+  // ones.
+  bindings: { importer: string, definedBy: string }[];
+}
+
+/**
+ * Resolves the env imports of the modules loaded into a runtime against the
+ * exports of the modules loaded before them. When several modules export the
+ * same symbol, the precedence picks the first or the last loaded one. Symbols
+ * the runtime provides itself are only used when no module exports them.
+ */
+export class Linker {
+  precedence: SymbolPrecedence;
+  symbols: { [name: string]: SymbolDefinition[] } = Object.create(null);
+  // The imports of every module resolved so far, including the ones that
+  // failed to link.
+  diagnostics: { [moduleName: string]: ImportDiagnostic[] } = Object.create(null);
+
+  constructor(precedence: SymbolPrecedence = "first") {
+    this.precedence = precedence;
+  }
+  define(moduleName: string, exports: any) {
+    Object.keys(exports).forEach(name => {
+      let value = exports[name];
+      if (value instanceof WebAssembly.Memory || value instanceof WebAssembly.Table) return;
+      let definitions = this.symbols[name] || (this.symbols[name] = []);
+      definitions.push({ name: name, value: value, definedBy: moduleName });
+    });
+  }
+  lookup(name: string): SymbolDefinition {
+    let definitions = this.symbols[name];
+    if (!definitions) return null;
+    return this.precedence === "first" ? definitions[0] : definitions[definitions.length - 1];
+  }
+  // Symbols several modules export, except the ones the toolchain adds to
+  // every module.
+  duplicates(): DuplicateSymbol[] {
+    return Object.keys(this.symbols).filter(name =>
+      this.symbols[name].length > 1 && RUNTIME_EXPORTS.indexOf(name) < 0
+    ).map(name => {
+      let bindings = [];
+      Object.keys(this.diagnostics).forEach(importer => {
+        this.diagnostics[importer].forEach(d => {
+          if (d.name === name && d.status === "provided")
+            bindings.push({ importer: importer, definedBy: d.providedBy });
+        });
+      });
+      return {
+        name: name,
+        definedBy: this.symbols[name].map(definition => definition.definedBy),
+        bindings: bindings
+      };
+    });
+  }
+  /**
+   * Returns the env object for a module, or throws listing all the imports
+   * that neither a loaded module nor the runtime provide. Builtins listed in
+   * `stubs` are reported as stubbed rather than provided.
+   */
+  resolve(moduleName: string, module: WebAssemblyModule, builtins: any, stubs: string[] = []): any {
+    let env = Object.create(null);
+    let diagnostics: ImportDiagnostic[] = [];
+    WebAssembly.Module.imports(module).forEach(entry => {
+      if (entry.module !== "env") return;
+      let definition = entry.kind === "function" ? this.lookup(entry.name) : null;
+      let diagnostic: ImportDiagnostic = { name: entry.name, kind: entry.kind, status: "provided", providedBy: null };
+      if (definition) {
+        env[entry.name] = definition.value;
+        diagnostic.providedBy = definition.definedBy;
+      } else if (entry.name in builtins) {
+        env[entry.name] = builtins[entry.name];
+        diagnostic.providedBy = "runtime";
+        if (stubs.indexOf(entry.name) >= 0) diagnostic.status = "stubbed";
+      } else {
+        diagnostic.status = "missing";
+      }
+      diagnostics.push(diagnostic);
+    });
+    this.diagnostics[moduleName] = diagnostics;
+    let missing = diagnostics.filter(d => d.status === "missing").map(d => d.name);
+    if (missing.length > 0) {
+      throw new Error(`Unresolved symbols in ${moduleName}: ${missing.join(", ")}`);
+    }
+    return env;
+  }
+}
+
+export function formatDuplicateSymbol(duplicate: DuplicateSymbol): string {
+  let uses = duplicate.bindings.map(binding => `${binding.importer} uses ${binding.definedBy}`);
+  return `${duplicate.name} is defined by ${duplicate.definedBy.join(", ")}; ` +
+         (uses.length > 0 ? uses.join(", ") : "not imported");
+}
+
+function padRight(s: string, l: number) {
+  while (s.length < l) s += " ";
+  return s;
+}
+
+export function formatImportDiagnostics(moduleName: string, diagnostics: ImportDiagnostic[]): string[] {
+  let lines = [`Imports of ${moduleName}:`];
+  let nameWidth = Math.max.apply(null, diagnostics.map(d => d.name.length).concat(4));
+  diagnostics.forEach(d => {
+    let status = d.status === "provided" ? `provided by ${d.providedBy}` : d.status;
+    lines.push(`  ${padRight(d.name, nameWidth)}  ${padRight(d.kind, 8)}  ${status}`);
+  });
+  if (diagnostics.length === 0) lines.push("  (none)");
+  return lines;
+}
@@ -0,0 +1,285 @@
+/*
+ * Copyright 2016 Mozilla Foundation
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ExternalKind } from 'wasmparser';
+import { ModuleInterface, FunctionSignature, Limits } from './module-info';
+
+export interface LoaderOptions {
+  wasmFileName: string;
+  moduleInterface: ModuleInterface;
+  // CommonJS-style code of the IDL-generated JS wrapper, if any. It must set
+  // module.exports to the createBindings(exports, memory) function declared
+  // by idl-dts.ts, which the loader calls with the exports and the memory of
+  // the instance.
+  wrapperCode?: string;
+  // Declarations of the IDL types, from idl-dts.ts, declaring the type of the
+  // bindings, `Module`.
+  bindingsDeclarations?: string[];
+  idlFileName?: string;
+}
+
+export interface LoaderCode {
+  js: string;
+  declarations: string;
+}
+
+function align(n: number, alignment: number): number {
+  return Math.ceil(n / alignment) * alignment;
+}
+
+function exportName(field: string): string {
+  return field.replace(/^_/, "");
+}
+
+// Like the IDL declarations embedded in the same file, the loader declarations
+// stick to TypeScript 2: i64 values are numbers, exact up to 2^53, which the
+// wrappers convert to and from the BigInts the engine passes.
+function coerceArgument(type: string, name: string): string {
+  switch (type) {
+    case "i32": return `${name} | 0`;
+    case "i64": return `BigInt(Math.trunc(${name}))`;
+    case "f32": return `Math.fround(${name})`;
+    case "f64": return `+${name}`;
+  }
+  return name;
+}
+
+function coerceResult(type: string, call: string): string {
+  return type === "i64" ? `Number(${call})` : call;
+}
+
+function importLimits(moduleInterface: ModuleInterface, kind: ExternalKind): Limits {
+  let entry = moduleInterface.imports.filter(i => i.kind === kind)[0];
+  return entry ? entry.limits : { initial: 0 };
+}
+
+function functionExports(moduleInterface: ModuleInterface) {
+  return moduleInterface.exports.filter(e => e.kind === ExternalKind.Function);
+}
+
+function generateExportWrapper(field: string, signature: FunctionSignature): string {
+  let params = signature.params.map((type, i) => `a${i}`);
+  let args = signature.params.map((type, i) => coerceArgument(type, `a${i}`));
+  let call = `raw[${JSON.stringify(field)}](${args.join(", ")})`;
+  if (signature.returns.length > 0) call = coerceResult(signature.returns[0], call);
+  return `    ${JSON.stringify(exportName(field))}: (${params.join(", ")}) => ${call},`;
+}
+
+/**
+ * Generates an ES module that instantiates a SIDE_MODULE=1 wasm file the way
+ * wasm-shell does: it sets up the memory, table, memoryBase, tableBase and
+ * stack, and optionally links the module against a host malloc module.
+ */
+export function generateLoader(options: LoaderOptions): LoaderCode {
+  let moduleInterface = options.moduleInterface;
+  let staticSize = align(Math.max(moduleInterface.dataSize, 16), 16);
+  let exports = functionExports(moduleInterface);
+  let tableSize = importLimits(moduleInterface, ExternalKind.Table).initial;
+  let memoryPages = importLimits(moduleInterface, ExternalKind.Memory).initial;
+  let js = [];
+  js.push(`// Generated by wasdk. Loads ${options.wasmFileName}.`);
+  js.push(``);
+  js.push(`const WASM_PAGE_SIZE = 64 * 1024;`);
+  js.push(`const INITIAL_MEMORY = Math.max(16 * 1024 * 1024, ${memoryPages} * WASM_PAGE_SIZE);`);
+  js.push(`const TABLE_SIZE = ${tableSize};`);
+  js.push(`const STATIC_SIZE = ${staticSize};`);
+  js.push(`const STACK_SIZE = 64 * 1024;`);
+  js.push(`const DYNAMICTOP_PTR = 0;`);
+  js.push(`const wasmUrl = new URL(${JSON.stringify("./" + options.wasmFileName)}, import.meta.url);`);
+  js.push(``);
+  js.push(`async function fetchBytes(url) {`);
+  js.push(`  if (typeof process !== "undefined" && process.versions && process.versions.node) {`);
+  js.push(`    const fs = await import("fs");`);
+  js.push(`    return fs.promises.readFile(url);`);
+  js.push(`  }`);
+  js.push(`  const response = await fetch(url);`);
+  js.push(`  return response.arrayBuffer();`);
+  js.push(`}`);
+  js.push(``);
+  if (options.wrapperCode) {
+    let idlFileName = JSON.stringify(options.idlFileName);
+    js.push(`// JS wrapper generated from ${options.idlFileName}.`);
+    js.push(`function createBindings(exports, memory) {`);
+    js.push(`  const module = { exports: {} };`);
+    js.push(`  (function (module, exports) {`);
+    js.push(options.wrapperCode);
+    js.push(`  })(module, module.exports);`);
+    js.push(`  if (typeof module.exports !== "function")`);
+    js.push(`    throw new Error("The JS wrapper of " + ${idlFileName} + " does not export createBindings(exports, memory).");`);
+    js.push(`  return module.exports(exports, memory);`);
+    js.push(`}`);
+    js.push(``);
+  }
+  js.push(`// Grows the memory to at least the size of the current dynamic top, like`);
+  js.push(`// Emscripten's enlargeMemory. Returns false when the memory can't grow that`);
+  js.push(`// much, i.e. past its maximum.`);
+  js.push(`function enlargeMemory(memory) {`);
+  js.push(`  const requested = new Int32Array(memory.buffer)[DYNAMICTOP_PTR >> 2] >>> 0;`);
+  js.push(`  const size = memory.buffer.byteLength;`);
+  js.push(`  if (requested <= size) return true;`);
+  js.push(`  let doubled = size;`);
+  js.push(`  while (doubled < requested) doubled *= 2;`);
+  js.push(`  for (const target of [doubled, requested]) {`);
+  js.push(`    try {`);
+  js.push(`      memory.grow(Math.ceil((target - size) / WASM_PAGE_SIZE));`);
+  js.push(`      return true;`);
+  js.push(`    } catch (e) {`);
+  js.push(`      if (!(e instanceof RangeError)) throw e;`);
+  js.push(`    }`);
+  js.push(`  }`);
+  js.push(`  return false;`);
+  js.push(`}`);
+  js.push(``);
+  js.push(`function allocate(host, memory, size) {`);
+  js.push(`  if (host) return host._malloc(size);`);
+  js.push(`  const heap32 = new Int32Array(memory.buffer);`);
+  js.push(`  const top = heap32[DYNAMICTOP_PTR >> 2];`);
+  js.push(`  heap32[DYNAMICTOP_PTR >> 2] = top + size;`);
+  js.push(`  if (top + size > memory.buffer.byteLength && !enlargeMemory(memory)) {`);
+  js.push(`    heap32[DYNAMICTOP_PTR >> 2] = top;`);
+  js.push(`    throw new Error("Out of memory allocating " + size + " bytes.");`);
+  js.push(`  }`);
+  js.push(`  return top;`);
+  js.push(`}`);
+  js.push(``);
+  js.push(`/**`);
+  js.push(` * Instantiates ${options.wasmFileName}. Options:`);
+  js.push(` *   host: exports of a host module providing _malloc and _free; the`);
+  js.push(` *         memory and table are then shared with the host module.`);
+  js.push(` *   memory, table: WebAssembly.Memory and WebAssembly.Table to use. The`);
+  js.push(` *         memory grows on demand, up to its maximum if it has one.`);
+  js.push(` *   env: additional imports.`);
+  js.push(` */`);
+  js.push(`export default async function load(options = {}) {`);
+  js.push(`  const host = options.host || null;`);
+  js.push(`  const memory = options.memory || (host && host.memory) ||`);
+  js.push(`    new WebAssembly.Memory({ initial: INITIAL_MEMORY / WASM_PAGE_SIZE });`);
+  js.push(`  const sharedTable = options.table || (host && host.table);`);
+  js.push(`  const table = sharedTable ||`);
+  js.push(`    new WebAssembly.Table({ initial: TABLE_SIZE, element: "anyfunc" });`);
+  js.push(`  // The module's functions go after the ones already in a shared table.`);
+  js.push(`  const tableBase = sharedTable ? table.length : 0;`);
+  js.push(`  if (sharedTable) table.grow(TABLE_SIZE);`);
+  js.push(`  const heap32 = new Int32Array(memory.buffer);`);
+  js.push(`  if (!host && heap32[DYNAMICTOP_PTR >> 2] === 0)`);
+  js.push(`    heap32[DYNAMICTOP_PTR >> 2] = 1024;`);
+  js.push(`  const memoryBase = allocate(host, memory, STATIC_SIZE + STACK_SIZE);`);
+  js.push(`  const stackTop = memoryBase + STATIC_SIZE;`);
+  js.push(`  const abort = what => { throw new Error("abort: " + what); };`);
+  js.push(`  const env = {`);
+  js.push(`    memory,`);
+  js.push(`    table,`);
+  js.push(`    memoryBase,`);
+  js.push(`    tableBase,`);
+  js.push(`    gb: memoryBase,`);
+  js.push(`    fb: tableBase,`);
+  js.push(`    STACKTOP: stackTop,`);
+  js.push(`    STACK_MAX: stackTop + STACK_SIZE,`);
+  js.push(`    DYNAMICTOP_PTR,`);
+  js.push(`    ABORT: 0,`);
+  js.push(`    tempDoublePtr: 0,`);
+  js.push(`    enlargeMemory: () => enlargeMemory(memory),`);
+  js.push(`    getTotalMemory: () => memory.buffer.byteLength,`);
+  js.push(`    abortOnCannotGrowMemory: () => abort("cannot grow memory"),`);
+  js.push(`    _abort: () => abort("_abort"),`);
+  js.push(`    ___setErrNo: () => {},`);
+  js.push(`    _emscripten_memcpy_big: (dest, src, num) => {`);
+  js.push(`      new Uint8Array(memory.buffer).copyWithin(dest, src, src + num);`);
+  js.push(`      return dest;`);
+  js.push(`    },`);
+  js.push(`    _malloc: host ? host._malloc : size => allocate(null, memory, size),`);
+  js.push(`    _free: host ? host._free : () => {},`);
+  js.push(`  };`);
+  js.push(`  Object.assign(env, options.env);`);
+  js.push(`  const bytes = await fetchBytes(wasmUrl);`);
+  js.push(`  const { instance } = await WebAssembly.instantiate(bytes, {`);
+  js.push(`    env,`);
+  js.push(`    global: { NaN, Infinity },`);
+  js.push(`  });`);
+  js.push(`  const raw = instance.exports;`);
+  js.push(`  const exports = {`);
+  exports.forEach(e => {
+    js.push(generateExportWrapper(e.field, e.signature));
+  });
+  js.push(`  };`);
+  if (options.wrapperCode) {
+    js.push(`  const bindings = createBindings(raw, memory);`);
+  } else {
+    js.push(`  const bindings = null;`);
+  }
+  js.push(`  return { instance, memory, table, exports, bindings };`);
+  js.push(`}`);
+
+  let dts = [];
+  dts.push(`// Generated by wasdk. Types of the ${options.wasmFileName} loader.`);
+  dts.push(``);
+  if (options.bindingsDeclarations) {
+    dts.push(`// Types of the bindings, from ${options.idlFileName}.`);
+    dts = dts.concat(options.bindingsDeclarations);
+  }
+  dts.push(`export interface Exports {`);
+  exports.forEach(e => {
+    let params = e.signature.params.map((type, i) => `a${i}: number`);
+    let result = e.signature.returns.length > 0 ? "number" : "void";
+    dts.push(`  ${JSON.stringify(exportName(e.field))}(${params.join(", ")}): ${result};`);
+  });
+  dts.push(`}`);
+  dts.push(``);
+  dts.push(`// The parts of the WebAssembly objects the loader uses.`);
+  dts.push(`export interface WasmMemory {`);
+  dts.push(`  readonly buffer: ArrayBuffer;`);
+  dts.push(`  grow(delta: number): number;`);
+  dts.push(`}`);
+  dts.push(``);
+  dts.push(`export interface WasmTable {`);
+  dts.push(`  readonly length: number;`);
+  dts.push(`  get(index: number): Function;`);
+  dts.push(`  grow(delta: number): number;`);
+  dts.push(`}`);
+  dts.push(``);
+  dts.push(`export interface WasmInstance {`);
+  dts.push(`  readonly exports: { [name: string]: any };`);
+  dts.push(`}`);
+  dts.push(``);
+  dts.push(`export interface HostModule {`);
+  dts.push(`  _malloc(size: number): number;`);
+  dts.push(`  _free(ptr: number): void;`);
+  dts.push(`  memory?: WasmMemory;`);
+  dts.push(`  table?: WasmTable;`);
+  dts.push(`}`);
+  dts.push(``);
+  dts.push(`export interface LoadOptions {`);
+  dts.push(`  host?: HostModule;`);
+  dts.push(`  memory?: WasmMemory;`);
+  dts.push(`  table?: WasmTable;`);
+  dts.push(`  env?: { [name: string]: any };`);
+  dts.push(`}`);
+  dts.push(``);
+  dts.push(`export interface LoadedModule {`);
+  dts.push(`  instance: WasmInstance;`);
+  dts.push(`  memory: WasmMemory;`);
+  dts.push(`  table: WasmTable;`);
+  dts.push(`  exports: Exports;`);
+  dts.push(`  bindings: ${options.bindingsDeclarations ? "Module" : "null"};`);
+  dts.push(`}`);
+  dts.push(``);
+  dts.push(`export default function load(options?: LoadOptions): Promise<LoadedModule>;`);
+
+  return {
+    js: js.join("\n") + "\n",
+    declarations: dts.join("\n") + "\n"
+  };
+}
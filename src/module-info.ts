@@ -0,0 +1,378 @@
+/*
+ * Copyright 2016 Mozilla Foundation
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  BinaryReader, BinaryReaderState, SectionCode, bytesToString,
+  IImportEntry, IExportEntry, ISectionInformation, ExternalKind,
+  IFunctionType, IFunctionEntry, IDataSegment, IDataSegmentBody, ITableType,
+  IMemoryType, IGlobalType, IGlobalVariable, IResizableLimits,
+  IOperatorInformation, IStartEntry, Int64, OperatorCode, OperatorCodeNames,
+  Type
+} from 'wasmparser';
+
+// Exports the toolchain adds to every module.
+export const RUNTIME_EXPORTS = [
+  "__growWasmMemory", "__post_instantiate", "runPostSets", "stackAlloc", "stackSave",
+  "stackRestore", "establishStackSpace", "setThrew", "setTempRet0", "getTempRet0"
+];
+
+export interface FunctionSignature {
+  params: string[];
+  returns: string[];
+}
+
+export interface Limits {
+  initial: number;
+  maximum?: number;
+}
+
+export interface ImportInfo {
+  module: string;
+  field: string;
+  kind: ExternalKind;
+  signature?: FunctionSignature;
+  // Limits of imported tables (in elements) and memories (in pages).
+  limits?: Limits;
+}
+
+export interface ExportInfo {
+  field: string;
+  kind: ExternalKind;
+  index: number;
+  signature?: FunctionSignature;
+}
+
+export interface ModuleInterface {
+  imports: ImportInfo[];
+  exports: ExportInfo[];
+  // Total size of the data segments, i.e. the static data of the module.
+  dataSize: number;
+}
+
+export function valueTypeName(type: number): string {
+  switch (type) {
+    case Type.i32: return "i32";
+    case Type.i64: return "i64";
+    case Type.f32: return "f32";
+    case Type.f64: return "f64";
+    case Type.anyfunc: return "anyfunc";
+  }
+  return "unknown";
+}
+
+export function signatureToString(signature: FunctionSignature): string {
+  return `(${signature.params.join(", ")}) -> ` +
+    (signature.returns.length > 0 ? signature.returns.join(", ") : "void");
+}
+
+export function externalKindName(kind: ExternalKind): string {
+  switch (kind) {
+    case ExternalKind.Function: return "function";
+    case ExternalKind.Table: return "table";
+    case ExternalKind.Memory: return "memory";
+    case ExternalKind.Global: return "global";
+  }
+  return "unknown";
+}
+
+export interface SectionInfo {
+  id: SectionCode;
+  name: string;
+  offset: number;
+  // Size of the whole section, including its header.
+  size: number;
+}
+
+export interface TableInfo {
+  elementType: string;
+  limits: Limits;
+  imported: boolean;
+}
+
+export interface MemoryInfo {
+  limits: Limits;
+  imported: boolean;
+}
+
+export interface GlobalInfo {
+  type: string;
+  mutable: boolean;
+  imported: boolean;
+  init?: string;
+}
+
+export interface DataSegmentInfo {
+  memoryIndex: number;
+  offset: string;
+  size: number;
+}
+
+export interface ModuleInfo extends ModuleInterface {
+  sections: SectionInfo[];
+  types: FunctionSignature[];
+  // Type indices of all functions, imported functions first.
+  functionTypes: number[];
+  importedFunctionCount: number;
+  tables: TableInfo[];
+  memories: MemoryInfo[];
+  globals: GlobalInfo[];
+  dataSegments: DataSegmentInfo[];
+  start: number;
+}
+
+const sectionNames = [
+  "custom", "type", "import", "function", "table", "memory", "global",
+  "export", "start", "element", "code", "data"
+];
+
+function limitsToInfo(limits: IResizableLimits): Limits {
+  let info: Limits = { initial: limits.initial };
+  if (limits.maximum !== undefined) info.maximum = limits.maximum;
+  return info;
+}
+
+function initOperatorToString(op: IOperatorInformation): string {
+  let name = OperatorCodeNames[op.code];
+  switch (op.code) {
+    case OperatorCode.get_global:
+      return `${name} ${op.globalIndex}`;
+    case OperatorCode.i32_const:
+    case OperatorCode.f32_const:
+    case OperatorCode.f64_const:
+      return `${name} ${op.literal}`;
+    case OperatorCode.i64_const:
+      return `${name} ${(<Int64>op.literal).toDouble()}`;
+  }
+  return name;
+}
+
+/**
+ * Reads the structure of a module: its sections, imports, exports, tables,
+ * memories, globals, data segments and start function. Function bodies are
+ * not decoded.
+ */
+export function readModuleInfo(wasm: Uint8Array): ModuleInfo {
+  let reader = new BinaryReader();
+  reader.setData(wasm.buffer, wasm.byteOffset, wasm.byteLength);
+
+  let info: ModuleInfo = {
+    imports: [],
+    exports: [],
+    dataSize: 0,
+    sections: [],
+    types: [],
+    functionTypes: [],
+    importedFunctionCount: 0,
+    tables: [],
+    memories: [],
+    globals: [],
+    dataSegments: [],
+    start: null
+  };
+  let currentSection: SectionInfo = null;
+  let initExpression: string[] = null;
+  let lastPosition = reader.position;
+parsing:
+  while (reader.read()) {
+    switch (reader.state) {
+      case BinaryReaderState.END_WASM:
+        break parsing;
+      case BinaryReaderState.ERROR:
+        throw reader.error;
+      case BinaryReaderState.BEGIN_SECTION:
+        let sectionInfo = <ISectionInformation>reader.result;
+        currentSection = {
+          id: sectionInfo.id,
+          name: sectionInfo.id == SectionCode.Custom ?
+            bytesToString(sectionInfo.name) : sectionNames[sectionInfo.id],
+          offset: lastPosition,
+          size: 0
+        };
+        info.sections.push(currentSection);
+        if (sectionInfo.id == SectionCode.Custom ||
+            sectionInfo.id == SectionCode.Element ||
+            sectionInfo.id == SectionCode.Code) {
+          reader.skipSection();
+        }
+        break;
+      case BinaryReaderState.END_SECTION:
+        currentSection.size = reader.position - currentSection.offset;
+        break;
+      case BinaryReaderState.TYPE_SECTION_ENTRY:
+        let funcType = <IFunctionType>reader.result;
+        info.types.push({
+          params: Array.prototype.map.call(funcType.params, valueTypeName),
+          returns: Array.prototype.map.call(funcType.returns, valueTypeName)
+        });
+        break;
+      case BinaryReaderState.IMPORT_SECTION_ENTRY:
+        let importEntry = <IImportEntry>reader.result;
+        let importInfo: ImportInfo = {
+          module: bytesToString(importEntry.module),
+          field: bytesToString(importEntry.field),
+          kind: importEntry.kind
+        };
+        switch (importEntry.kind) {
+          case ExternalKind.Function:
+            info.functionTypes.push(importEntry.funcTypeIndex);
+            info.importedFunctionCount++;
+            importInfo.signature = info.types[importEntry.funcTypeIndex];
+            break;
+          case ExternalKind.Table:
+            let tableType = <ITableType>importEntry.type;
+            importInfo.limits = limitsToInfo(tableType.limits);
+            info.tables.push({
+              elementType: valueTypeName(tableType.elementType),
+              limits: importInfo.limits,
+              imported: true
+            });
+            break;
+          case ExternalKind.Memory:
+            importInfo.limits = limitsToInfo((<IMemoryType>importEntry.type).limits);
+            info.memories.push({ limits: importInfo.limits, imported: true });
+            break;
+          case ExternalKind.Global:
+            let globalType = <IGlobalType>importEntry.type;
+            info.globals.push({
+              type: valueTypeName(globalType.contentType),
+              mutable: globalType.mutability === 1,
+              imported: true
+            });
+            break;
+        }
+        info.imports.push(importInfo);
+        break;
+      case BinaryReaderState.FUNCTION_SECTION_ENTRY:
+        info.functionTypes.push((<IFunctionEntry>reader.result).typeIndex);
+        break;
+      case BinaryReaderState.TABLE_SECTION_ENTRY:
+        let table = <ITableType>reader.result;
+        info.tables.push({
+          elementType: valueTypeName(table.elementType),
+          limits: limitsToInfo(table.limits),
+          imported: false
+        });
+        break;
+      case BinaryReaderState.MEMORY_SECTION_ENTRY:
+        let memory = <IMemoryType>reader.result;
+        info.memories.push({ limits: limitsToInfo(memory.limits), imported: false });
+        break;
+      case BinaryReaderState.BEGIN_GLOBAL_SECTION_ENTRY:
+        let globalVariable = <IGlobalVariable>reader.result;
+        info.globals.push({
+          type: valueTypeName(globalVariable.type.contentType),
+          mutable: globalVariable.type.mutability === 1,
+          imported: false
+        });
+        break;
+      case BinaryReaderState.BEGIN_INIT_EXPRESSION_BODY:
+        initExpression = [];
+        break;
+      case BinaryReaderState.INIT_EXPRESSION_OPERATOR:
+        let op = <IOperatorInformation>reader.result;
+        if (op.code !== OperatorCode.end) initExpression.push(initOperatorToString(op));
+        break;
+      case BinaryReaderState.END_INIT_EXPRESSION_BODY:
+        if (currentSection.id == SectionCode.Global)
+          info.globals[info.globals.length - 1].init = initExpression.join("; ");
+        break;
+      case BinaryReaderState.BEGIN_DATA_SECTION_ENTRY:
+        info.dataSegments.push({
+          memoryIndex: (<IDataSegment>reader.result).index,
+          offset: null,
+          size: 0
+        });
+        break;
+      case BinaryReaderState.DATA_SECTION_ENTRY_BODY:
+        let segment = info.dataSegments[info.dataSegments.length - 1];
+        segment.offset = initExpression.join("; ");
+        segment.size = (<IDataSegmentBody>reader.result).data.length;
+        info.dataSize += segment.size;
+        break;
+      case BinaryReaderState.EXPORT_SECTION_ENTRY:
+        let exportEntry = <IExportEntry>reader.result;
+        info.exports.push({
+          field: bytesToString(exportEntry.field),
+          kind: exportEntry.kind,
+          index: exportEntry.index
+        });
+        break;
+      case BinaryReaderState.START_SECTION_ENTRY:
+        info.start = (<IStartEntry>reader.result).index;
+        break;
+    }
+    lastPosition = reader.position;
+  }
+  info.exports.forEach(e => {
+    if (e.kind === ExternalKind.Function)
+      e.signature = info.types[info.functionTypes[e.index]];
+  });
+  return info;
+}
+
+export function readModuleInterface(wasm: Uint8Array): ModuleInterface {
+  return readModuleInfo(wasm);
+}
+
+function limitsToString(limits: Limits): string {
+  return `initial ${limits.initial}` +
+    (limits.maximum !== undefined ? `, maximum ${limits.maximum}` : "");
+}
+
+/**
+ * Formats the module information as the text output of `wasdk info`.
+ */
+export function formatModuleInfo(info: ModuleInfo): string {
+  let lines = [];
+  lines.push("Sections:");
+  info.sections.forEach(section => {
+    let name = section.id == SectionCode.Custom ? `custom "${section.name}"` : section.name;
+    lines.push(`  ${name}: ${section.size} bytes at 0x${section.offset.toString(16)}`);
+  });
+  lines.push(`Functions: ${info.functionTypes.length - info.importedFunctionCount}` +
+             ` defined, ${info.importedFunctionCount} imported`);
+  lines.push(`Imports (${info.imports.length}):`);
+  info.imports.forEach(i => {
+    let details = i.signature ? " " + signatureToString(i.signature) :
+                  i.limits ? ` (${limitsToString(i.limits)})` : "";
+    lines.push(`  ${externalKindName(i.kind)} ${i.module}.${i.field}${details}`);
+  });
+  lines.push(`Exports (${info.exports.length}):`);
+  info.exports.forEach(e => {
+    let details = e.signature ? " " + signatureToString(e.signature) : "";
+    lines.push(`  ${externalKindName(e.kind)} ${e.field} [${e.index}]${details}`);
+  });
+  info.tables.forEach((table, i) => {
+    lines.push(`Table ${i}${table.imported ? " (imported)" : ""}: ` +
+               `${table.elementType}, ${limitsToString(table.limits)}`);
+  });
+  info.memories.forEach((memory, i) => {
+    lines.push(`Memory ${i}${memory.imported ? " (imported)" : ""}: ` +
+               `${limitsToString(memory.limits)} pages`);
+  });
+  lines.push(`Globals (${info.globals.length}):`);
+  info.globals.forEach((global, i) => {
+    lines.push(`  ${i}: ${global.mutable ? "mut " : ""}${global.type}` +
+               (global.imported ? " (imported)" : ` = ${global.init}`));
+  });
+  lines.push(`Data segments (${info.dataSegments.length}, ${info.dataSize} bytes):`);
+  info.dataSegments.forEach((segment, i) => {
+    lines.push(`  ${i}: memory ${segment.memoryIndex}, offset ${segment.offset}, ` +
+               `${segment.size} bytes`);
+  });
+  lines.push(`Start function: ${info.start === null ? "none" : info.start}`);
+  return lines.join("\n");
+}
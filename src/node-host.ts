@@ -0,0 +1,55 @@
+/*
+ * Copyright 2016 Mozilla Foundation
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as fs from "fs";
+import * as path from "path";
+import { fail, ASSEMBLER } from "./shared";
+import { wast2wasm } from "./api";
+import { RunOptions, runModule, TestOptions, TestRun, runTests } from "./runtime";
+var wabt = require('wabt');
+
+// Node host of the wasm-shell runtime, used by `wasdk run --engine node` and
+// by Node programs embedding the runtime.
+
+export function readWasmFile(filePath: string): Uint8Array {
+  if (path.extname(filePath).toLowerCase() !== ".wast")
+    return new Uint8Array(fs.readFileSync(filePath));
+  if (!fs.existsSync(ASSEMBLER))
+    fail("Reading .wast files requires Binaryen, run: wasdk sdk --install");
+  return new Uint8Array((<any>wast2wasm).sync(fs.readFileSync(filePath)));
+}
+
+// Assembles a .wast file with the JS text parser of wabt, for the commands
+// that run under plain Node without the downloaded Binaryen.
+export function readWasmTextFile(filePath: string): Promise<Uint8Array> {
+  return wabt().then(wabtModule => {
+    let module = wabtModule.parseWat(filePath, fs.readFileSync(filePath, "utf8"));
+    try {
+      module.resolveNames();
+      module.validate();
+      return module.toBinary({}).buffer;
+    } finally {
+      module.destroy();
+    }
+  });
+}
+
+export function runModuleInNode(options: RunOptions): boolean {
+  return runModule(options, readWasmFile, message => console.error(message));
+}
+
+export function runTestsInNode(options: TestOptions): TestRun {
+  return runTests(options, readWasmFile);
+}
@@ -0,0 +1,606 @@
+/*
+ * Copyright 2016 Mozilla Foundation
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/// <reference path="./globals.d.ts"/>
+
+// The wasm-shell runtime: the memory layout and dynamic linking of side
+// modules against a malloc host module. It only relies on the WebAssembly
+// API, so that it runs under SpiderMonkey (wasm-shell.ts) as well as Node
+// (node-host.ts).
+
+import { ExternalKind } from 'wasmparser';
+import { readModuleInterface, ModuleInterface } from './module-info';
+import { Linker, SymbolPrecedence, formatDuplicateSymbol, formatImportDiagnostics } from './linker';
+import { AllocationTracker, formatAllocationProblem, formatAllocationReport } from './allocation-tracker';
+
+export const WASM_PAGE_SIZE = 64 * 1024;
+export const INITIAL_MEMORY = 16 * 1024 * 1024;
+export const MAXIMUM_MEMORY = 32 * 1024 * 1024;
+export const DYNAMICTOP_PTR = 0;
+
+// Imports the runtime only provides as no-ops, reported as stubbed.
+export const STUBBED_IMPORTS = ["_emscripten_memcpy_big", "___setErrNo"];
+
+/**
+
++--------------------------------------+
+|            DYNAMICTOP_PTR            |
++--------------------------------------+
+|             Root Module              |
+|  +-----------------------------------+ <---------  Static Base
+|  |              Static               |
+|  +-----------------------------------+ <---------  Stack Base
+|  |               Stack               |
++--------------------------------------+ <---------  Stack Top
+|             Malloc Area              |
+|  +-----------------------------------+
+|  |             Module 1              |
+|  +-----------------------------------+
+|  |             Module n              |
+|  +-----------------------------------+
+|  |                ...                |
+|  +-----------------------------------+
+|                                      |
++--------------------------------------+ <---------  Dynamic Top
+
+*/
+
+export class ModuleOptions {
+  staticBase: number = -1;
+  staticSize: number = -1;
+  stackBase: number = -1;
+  stackSize: number = -1;
+  // Range of the table holding the module's function pointers.
+  tableBase: number = 0;
+  tableSize: number = 0;
+
+  constructor(base: number, staticSize = 1024, stackSize = 1024, tableBase = 0, tableSize = 0) {
+    this.staticBase = base;
+    this.staticSize = staticSize;
+    this.stackBase = this.staticBase + this.staticSize;
+    this.stackSize = stackSize;
+    this.tableBase = tableBase;
+    this.tableSize = tableSize;
+  }
+}
+
+export class Module {
+  module: WebAssemblyModule = null;
+  runtime: Runtime = null;
+  memory: WebAssemblyMemory = null;
+  table: WebAssemblyTable = null;
+  instance: WebAssemblyInstance = null;
+  environment: any;
+  options: ModuleOptions;
+  name: string;
+  wrappedExports: any = null;
+  constructor(module: WebAssemblyModule, runtime: Runtime, options: ModuleOptions, name = "module") {
+    this.module = module;
+    this.runtime = runtime;
+    this.memory = runtime.memory;
+    this.table = runtime.table;
+    this.options = options;
+    this.name = name;
+    this.environment = runtime.linker.resolve(name, module, this.createEnvironment(), STUBBED_IMPORTS);
+    if (runtime.allocations) runtime.trackAllocations(this.environment, name);
+    if (runtime.trace) this.environment = runtime.traceFunctions(this.environment, `${name} import`);
+    this.instance = new WebAssembly.Instance(module, {
+      env: this.environment,
+      global: {
+        NaN: NaN,
+        Infinity: Infinity
+      }
+    });
+  }
+  // Symbols the runtime provides to every module, unless a loaded module
+  // exports them.
+  createEnvironment() {
+    let stackTop = this.options.stackBase;
+    let stackMax = stackTop + this.options.stackSize;
+    let staticBase = this.options.staticBase;
+
+    var env: any = {
+      gb: staticBase,
+      fb: this.options.tableBase,
+      STACKTOP: stackTop,
+      STACK_MAX: stackMax,
+      DYNAMICTOP_PTR: DYNAMICTOP_PTR,
+      ABORT: 0,
+      tempDoublePtr: 0,
+      enlargeMemory: () => this.runtime.enlargeMemory(),
+      getTotalMemory: () => this.runtime.getTotalMemory(),
+      abortOnCannotGrowMemory: () => this.runtime.abortOnCannotGrowMemory(),
+      _abort: () => this.abort(),
+      _emscripten_memcpy_big: this.nop.bind(this, "_emscripten_memcpy_big"),
+      ___setErrNo: this.nop.bind(this, "___setErrNo"),
+      _print: (i) => this.runtime.print(i),
+      memory: this.memory,
+      table: this.table,
+      memoryBase: staticBase,
+      tableBase: this.options.tableBase
+    };
+    return env;
+  }
+  nop(s: string) {
+    console.log("NOP: " + s);
+  }
+  abort() {
+    throw new Error(`abort() called by ${this.name}`);
+  }
+  exports(): any {
+    if (!this.runtime.trace && !this.runtime.allocations) return this.instance.exports;
+    if (!this.wrappedExports) {
+      let exports = this.instance.exports;
+      if (this.runtime.allocations) exports = this.runtime.trackCallers(exports, this.name);
+      if (this.runtime.trace) exports = this.runtime.traceFunctions(exports, `${this.name} export`);
+      this.wrappedExports = exports;
+    }
+    return this.wrappedExports;
+  }
+}
+
+export class MallocModule extends Module {
+  constructor(module: WebAssemblyModule, runtime: Runtime, options: ModuleOptions, name = "host") {
+    super(module, runtime, options, name);
+  }
+  malloc(size: number) {
+    return this.exports()._malloc(size);
+  }
+}
+
+export interface RuntimeOptions {
+  // Maximum size the memory can grow to, in bytes.
+  maximumMemory?: number;
+  // Which module's export imports resolve to when several export a symbol.
+  precedence?: SymbolPrecedence;
+  // Logs calls to imports and exports, with their arguments, results and
+  // durations, when set.
+  trace?: (message: string) => void;
+  // Records the allocations the modules make with the host's _malloc and
+  // _free, see allocation-tracker.ts.
+  trackAllocations?: boolean;
+  // Receives the values modules print with _print, logged by default.
+  print?: (value: number) => void;
+  // Number of table entries of all the modules to load, the maximum size of
+  // the table. Modules importing a table with a maximum only link against a
+  // table that has one; the table can grow without bound when this is unset.
+  tableSize?: number;
+}
+
+function align(n: number, alignment: number): number {
+  return Math.ceil(n / alignment) * alignment;
+}
+
+// Size of the table range a module needs, from the limits of its table import.
+function importedTableSize(moduleInterface: ModuleInterface): number {
+  let table = moduleInterface.imports.filter(i => i.module === "env" && i.field === "table")[0];
+  return table ? table.limits.initial : 0;
+}
+
+function now(): number {
+  return typeof performance !== "undefined" ? performance.now() : Date.now();
+}
+
+export class Runtime {
+  memory: WebAssemblyMemory;
+  table: WebAssemblyTable;
+  maximumMemory: number;
+  HEAP8: Int8Array;
+  HEAP16: Int16Array;
+  HEAP32: Int32Array;
+  HEAPU8: Uint8Array;
+  HEAPU16: Uint16Array;
+  HEAPU32: Uint32Array;
+  HEAPF32: Float32Array;
+  HEAPF64: Float64Array;
+  // Module providing _malloc and _free to the instances, if any.
+  hostModule: MallocModule = null;
+  modules: Module[] = [];
+  linker: Linker;
+  trace: (message: string) => void;
+  traceDepth = 0;
+  allocations: AllocationTracker = null;
+  print: (value: number) => void;
+
+  constructor(options: RuntimeOptions = {}) {
+    this.maximumMemory = Math.max(options.maximumMemory || MAXIMUM_MEMORY, INITIAL_MEMORY);
+    this.linker = new Linker(options.precedence);
+    this.trace = options.trace || null;
+    this.print = options.print || (value => console.log(`[print: ${value}]`));
+    if (options.trackAllocations) this.allocations = new AllocationTracker();
+    this.memory = new WebAssembly.Memory({
+      initial: INITIAL_MEMORY / WASM_PAGE_SIZE,
+      maximum: Math.floor(this.maximumMemory / WASM_PAGE_SIZE)
+    });
+    this.table = new WebAssembly.Table(options.tableSize === undefined ?
+      { initial: 0, element: 'anyfunc' } :
+      { initial: 0, maximum: options.tableSize, element: 'anyfunc' });
+    this.updateViews();
+    this.HEAP32[DYNAMICTOP_PTR >> 2] = 1024 * 2;
+  }
+  // Growing the memory detaches its old buffer, whether the memory is grown
+  // here or by a module, so the views are re-derived before they are used.
+  updateViews() {
+    let buffer = this.memory.buffer;
+    if (this.HEAP8 && this.HEAP8.buffer === buffer) return;
+    this.HEAP8 = new Int8Array(buffer);
+    this.HEAP16 = new Int16Array(buffer);
+    this.HEAP32 = new Int32Array(buffer);
+    this.HEAPU8 = new Uint8Array(buffer);
+    this.HEAPU16 = new Uint16Array(buffer);
+    this.HEAPU32 = new Uint32Array(buffer);
+    this.HEAPF32 = new Float32Array(buffer);
+    this.HEAPF64 = new Float64Array(buffer);
+  }
+  getTotalMemory(): number {
+    return this.memory.buffer.byteLength;
+  }
+  /**
+   * Grows the memory to at least the size of the current dynamic top, like
+   * Emscripten's enlargeMemory: sbrk moves the top first and calls it when the
+   * top is past the end of the memory. Returns false when the memory can't
+   * grow that much.
+   */
+  enlargeMemory(): boolean {
+    this.updateViews();
+    let requested = this.HEAP32[DYNAMICTOP_PTR >> 2] >>> 0;
+    if (requested > this.maximumMemory) return false;
+    let size = this.getTotalMemory();
+    while (size < requested) size = Math.min(size * 2, this.maximumMemory);
+    size = Math.min(Math.ceil(size / WASM_PAGE_SIZE) * WASM_PAGE_SIZE, this.maximumMemory);
+    if (size < requested) return false;
+    this.growMemory(size);
+    return true;
+  }
+  abortOnCannotGrowMemory() {
+    throw new Error(`Cannot enlarge memory beyond the maximum of ${this.maximumMemory} bytes.`);
+  }
+  // Modules built with ALLOW_MEMORY_GROWTH export __growWasmMemory, which
+  // grows the memory from inside the module; the memory is grown directly
+  // when none does.
+  growMemory(size: number) {
+    let pages = (size - this.getTotalMemory()) / WASM_PAGE_SIZE;
+    if (pages <= 0) return;
+    let grower = this.modules.filter(m => typeof m.exports().__growWasmMemory === "function")[0];
+    if (grower) {
+      grower.exports().__growWasmMemory(pages);
+    } else {
+      this.memory.grow(pages);
+    }
+    this.updateViews();
+  }
+  /**
+   * Returns a copy of an import or export object whose functions log their
+   * calls, nested calls being indented.
+   */
+  traceFunctions(functions: any, label: string): any {
+    let traced = Object.create(null);
+    Object.keys(functions).forEach(name => {
+      let fn = functions[name];
+      if (typeof fn !== "function") {
+        traced[name] = fn;
+        return;
+      }
+      traced[name] = (...args: any[]) => {
+        let indent = new Array(this.traceDepth + 1).join("  ");
+        this.trace(`${indent}-> ${name}(${args.join(", ")}) [${label}]`);
+        this.traceDepth++;
+        let start = now();
+        let result;
+        try {
+          result = fn.apply(null, args);
+        } catch (e) {
+          this.trace(`${indent}<- ${name} threw ${e} (${(now() - start).toFixed(3)} ms)`);
+          throw e;
+        } finally {
+          this.traceDepth--;
+        }
+        let value = result === undefined ? "" : ` = ${result}`;
+        this.trace(`${indent}<- ${name}${value} (${(now() - start).toFixed(3)} ms)`);
+        return result;
+      };
+    });
+    return traced;
+  }
+  // Routes the _malloc and _free imports of a module through the allocation
+  // tracker. Frees of pointers that aren't live don't reach the host.
+  trackAllocations(env: any, moduleName: string) {
+    let malloc = env._malloc, free = env._free;
+    if (malloc) {
+      env._malloc = (size: number) => {
+        let ptr = malloc(size);
+        this.allocations.malloc(ptr, size, moduleName);
+        return ptr;
+      };
+    }
+    if (free) {
+      env._free = (ptr: number) => {
+        if (this.allocations.free(ptr, moduleName)) free(ptr);
+      };
+    }
+  }
+  // Wraps the exports of a module so that allocations are attributed to the
+  // export they are made in.
+  trackCallers(exports: any, moduleName: string): any {
+    let tracked = Object.create(null);
+    Object.keys(exports).forEach(name => {
+      let fn = exports[name];
+      if (typeof fn !== "function") {
+        tracked[name] = fn;
+        return;
+      }
+      tracked[name] = (...args: any[]) => {
+        this.allocations.callers.push(`${moduleName}.${name}`);
+        try {
+          return fn.apply(null, args);
+        } finally {
+          this.allocations.callers.pop();
+        }
+      };
+    });
+    return tracked;
+  }
+  // Gives a module its own range of the table, after the ranges of the
+  // modules loaded before it.
+  reserveTable(size: number): number {
+    let base = this.table.length;
+    if (size > 0) this.table.grow(size);
+    return base;
+  }
+  // Sizes the static data and the table range of a module from its imports.
+  layout(wasm: Uint8Array, base: (size: number) => number): ModuleOptions {
+    let moduleInterface = readModuleInterface(wasm);
+    let staticSize = Math.max(1024, align(moduleInterface.dataSize, 16));
+    let stackSize = 1024;
+    let tableSize = importedTableSize(moduleInterface);
+    return new ModuleOptions(base(staticSize + stackSize), staticSize, stackSize,
+                             this.reserveTable(tableSize), tableSize);
+  }
+  loadHost(wasm: Uint8Array, name = "host"): MallocModule {
+    let options = this.layout(wasm, size => 1024);
+    let stackMax = options.stackBase + options.stackSize;
+    this.updateViews();
+    if (this.HEAP32[DYNAMICTOP_PTR >> 2] < stackMax) this.HEAP32[DYNAMICTOP_PTR >> 2] = align(stackMax, 16);
+    this.hostModule = new MallocModule(new WebAssembly.Module(wasm), this, options, name);
+    this.linker.define(name, this.hostModule.instance.exports);
+    this.modules.push(this.hostModule);
+    return this.hostModule;
+  }
+  // Static data and stack of the instances come from the host's malloc, or
+  // from the dynamic area directly when there is no host.
+  allocate(size: number): number {
+    if (this.hostModule) return this.hostModule.malloc(size);
+    this.updateViews();
+    let top = this.HEAP32[DYNAMICTOP_PTR >> 2];
+    this.HEAP32[DYNAMICTOP_PTR >> 2] = top + size;
+    if (top + size > this.getTotalMemory() && !this.enlargeMemory()) {
+      this.HEAP32[DYNAMICTOP_PTR >> 2] = top;
+      throw new Error(`Out of memory allocating ${size} bytes.`);
+    }
+    return top;
+  }
+  instantiate(wasm: Uint8Array, count: number = 1, name = "module"): Module[] {
+    let module = new WebAssembly.Module(wasm);
+    let instances = [];
+    for (let i = 0; i < count; i++) {
+      let options = this.layout(wasm, size => this.allocate(Math.max(WASM_PAGE_SIZE, size)));
+      instances.push(new Module(module, this, options, count > 1 ? `${name}[${i}]` : name));
+    }
+    // Further instances export the same symbols; modules loaded later link
+    // against the first one.
+    this.linker.define(name, instances[0].instance.exports);
+    this.modules = this.modules.concat(instances);
+    return instances;
+  }
+}
+
+export interface RunOptions {
+  input: string;
+  // Module providing _malloc and _free to the instances, if any.
+  host: string;
+  instances: number;
+  // Maximum size the memory can grow to, in bytes.
+  maximumMemory: number;
+  precedence: SymbolPrecedence;
+  // Only lists the imports of the modules, without calling the export.
+  checkImports: boolean;
+  trace: boolean;
+  // Reports leaks and invalid frees after the call.
+  trackAllocations: boolean;
+  invoke: string;
+  // Arguments of the invoked export, already checked against its signature.
+  args: number[];
+}
+
+function baseName(file: string): string {
+  return file.replace(/^.*[\\/]/, "");
+}
+
+interface ModuleFile {
+  name: string;
+  wasm: Uint8Array;
+}
+
+// The modules a run links together: the host, the libraries and the input.
+interface ModuleFiles {
+  host: ModuleFile;
+  libraries: ModuleFile[];
+  input: ModuleFile;
+}
+
+function readModuleFiles(readWasm: (file: string) => Uint8Array, host: string,
+                         libraries: string[], input: string): ModuleFiles {
+  let read = (file: string) => ({ name: baseName(file), wasm: readWasm(file) });
+  return {
+    host: host ? read(host) : null,
+    libraries: libraries.map(read),
+    input: read(input)
+  };
+}
+
+// The table holds the ranges of all the modules, so its maximum is known
+// before any is loaded.
+function totalTableSize(files: ModuleFiles, instances: number): number {
+  let size = (file: ModuleFile) => importedTableSize(readModuleInterface(file.wasm));
+  return (files.host ? size(files.host) : 0) +
+    files.libraries.reduce((total, library) => total + size(library), 0) +
+    size(files.input) * instances;
+}
+
+function loadModules(runtime: Runtime, files: ModuleFiles, instances: number): Module[] {
+  if (files.host) runtime.loadHost(files.host.wasm, files.host.name);
+  files.libraries.forEach(library => runtime.instantiate(library.wasm, 1, library.name));
+  return runtime.instantiate(files.input.wasm, instances, files.input.name);
+}
+
+function printImportDiagnostics(runtime: Runtime, print: (message: string) => void, onlyMissing = false) {
+  let diagnostics = runtime.linker.diagnostics;
+  Object.keys(diagnostics).forEach(name => {
+    if (onlyMissing && !diagnostics[name].some(d => d.status === "missing")) return;
+    formatImportDiagnostics(name, diagnostics[name]).forEach(line => print(line));
+  });
+}
+
+/**
+ * Instantiates a module, calls one of its exports in every instance and
+ * prints the results. Returns false when the module can't be linked, when
+ * the call traps or throws, or when tracked allocations are freed wrongly.
+ */
+export function runModule(options: RunOptions, readWasm: (file: string) => Uint8Array,
+                          printErr: (message: string) => void): boolean {
+  let instances = options.checkImports ? 1 : options.instances;
+  let files;
+  try {
+    files = readModuleFiles(readWasm, options.host, [], options.input);
+  } catch (e) {
+    printErr(`Error: ${e.message}`);
+    return false;
+  }
+  let runtime = new Runtime({
+    maximumMemory: options.maximumMemory,
+    precedence: options.precedence,
+    trace: options.trace ? message => printErr(`[trace] ${message}`) : null,
+    trackAllocations: options.trackAllocations,
+    tableSize: totalTableSize(files, instances)
+  });
+  if (runtime.allocations) {
+    runtime.allocations.onProblem = problem => printErr(`Allocation error: ${formatAllocationProblem(problem)}`);
+  }
+  let modules;
+  try {
+    modules = loadModules(runtime, files, instances);
+  } catch (e) {
+    printErr(`Link error: ${e.message}`);
+    printImportDiagnostics(runtime, printErr, true);
+    return false;
+  }
+  if (options.checkImports) {
+    printImportDiagnostics(runtime, message => console.log(message));
+    return true;
+  }
+  runtime.linker.duplicates().forEach(duplicate => printErr(`Warning: ${formatDuplicateSymbol(duplicate)}`));
+  let ok = modules.every((module, i) => {
+    let call = `${options.invoke}(${options.args.join(", ")})`;
+    if (options.instances > 1) call = `[instance ${i}] ${call}`;
+    let result;
+    try {
+      result = module.exports()[options.invoke].apply(null, options.args);
+    } catch (e) {
+      let kind = e instanceof (<any>WebAssembly).RuntimeError ? "Trap" : "Error";
+      printErr(`${kind} in ${options.invoke}: ${e.message}`);
+      if (e.stack) printErr(e.stack);
+      return false;
+    }
+    console.log(result === undefined ? call : `${call} = ${result}`);
+    return true;
+  });
+  if (runtime.allocations) {
+    formatAllocationReport(runtime.allocations).forEach(line => console.log(line));
+    ok = ok && runtime.allocations.problems.length === 0;
+  }
+  return ok;
+}
+
+export interface TestOptions {
+  input: string;
+  host: string;
+  // Modules the tested module links against, loaded after the host.
+  libraries: string[];
+  // Exports matching the pattern are run as tests.
+  pattern: string;
+  maximumMemory: number;
+  precedence: SymbolPrecedence;
+}
+
+export interface TestResult {
+  name: string;
+  // Return value, undefined for void tests and traps.
+  result?: number;
+  // Values printed with _print.
+  output: string[];
+  trap?: string;
+  // In milliseconds.
+  duration: number;
+}
+
+export interface TestRun {
+  // Set when the modules can't be loaded and no test was run.
+  error?: string;
+  tests: TestResult[];
+}
+
+/**
+ * Runs the exports of a module matching a pattern, each in a fresh runtime so
+ * that the tests don't see each other's memory, capturing what they print.
+ */
+export function runTests(options: TestOptions, readWasm: (file: string) => Uint8Array): TestRun {
+  let pattern = new RegExp(options.pattern);
+  let files, names;
+  try {
+    files = readModuleFiles(readWasm, options.host, options.libraries, options.input);
+    // Read from the binary, as not every engine has WebAssembly.Module.exports.
+    names = readModuleInterface(files.input.wasm).exports
+      .filter(e => e.kind === ExternalKind.Function && pattern.test(e.field)).map(e => e.field);
+  } catch (e) {
+    return { error: e.message, tests: [] };
+  }
+  let tests: TestResult[] = [];
+  for (let i = 0; i < names.length; i++) {
+    let output = [];
+    let runtime = new Runtime({
+      maximumMemory: options.maximumMemory,
+      precedence: options.precedence,
+      print: value => output.push(String(value)),
+      tableSize: totalTableSize(files, 1)
+    });
+    let module;
+    try {
+      module = loadModules(runtime, files, 1)[0];
+    } catch (e) {
+      return { error: `Link error: ${e.message}`, tests: tests };
+    }
+    let test: TestResult = { name: names[i], output: output, duration: 0 };
+    let start = now();
+    try {
+      let result = module.exports()[names[i]]();
+      if (result !== undefined) test.result = result;
+    } catch (e) {
+      test.trap = e.message;
+    }
+    test.duration = now() - start;
+    tests.push(test);
+  }
+  return { tests: tests };
+}
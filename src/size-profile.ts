@@ -0,0 +1,265 @@
+/*
+ * Copyright 2016 Mozilla Foundation
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SectionCode } from 'wasmparser';
+import { readModuleInfo } from './module-info';
+import { CodeInfo, readCodeInfo, functionName, rootFunctions } from './code-info';
+
+export interface FunctionSize {
+  index: number;
+  name: string;
+  size: number;
+  // Size of the function plus the functions only reachable through it, i.e.
+  // the code that goes away when the function is removed.
+  retained: number;
+  reachable: boolean;
+}
+
+export interface SizeProfile {
+  totalSize: number;
+  categories: { [name: string]: number };
+  functions: FunctionSize[];
+}
+
+export interface FunctionSizeDelta {
+  name: string;
+  oldSize: number;
+  newSize: number;
+  delta: number;
+}
+
+export interface SizeDiff {
+  totalSize: FunctionSizeDelta;
+  categories: FunctionSizeDelta[];
+  functions: FunctionSizeDelta[];
+}
+
+function sectionCategory(id: SectionCode, name: string): string {
+  switch (id) {
+    case SectionCode.Code: return "code";
+    case SectionCode.Data: return "data";
+    case SectionCode.Import: return "imports";
+    case SectionCode.Export: return "exports";
+    case SectionCode.Custom: return name === "name" ? "names" : "custom";
+  }
+  return "other";
+}
+
+/**
+ * Computes the dominator tree of the call graph, rooted at a virtual node
+ * calling the roots returned by rootFunctions, and returns the retained size
+ * of every defined function. Uses the algorithm from
+ * "A Simple, Fast Dominance Algorithm" by Cooper, Harvey and Kennedy.
+ */
+function computeRetainedSizes(code: CodeInfo): { retained: number[], reachable: boolean[] } {
+  let count = code.functions.length;
+  let base = code.importedFunctionCount;
+  let root = count;
+  let successors: number[][] = code.functions.map(f =>
+    f.calls.filter(callee => callee >= base).map(callee => callee - base));
+  successors[root] = rootFunctions(code).filter(i => i >= base).map(i => i - base);
+
+  // Iterative depth-first search for the reverse postorder.
+  let order = [];
+  let visited: boolean[] = [];
+  let stack: number[][] = [[root, 0]];
+  visited[root] = true;
+  while (stack.length > 0) {
+    let top = stack[stack.length - 1];
+    let next = successors[top[0]][top[1]++];
+    if (next === undefined) {
+      order.push(top[0]);
+      stack.pop();
+    } else if (!visited[next]) {
+      visited[next] = true;
+      stack.push([next, 0]);
+    }
+  }
+  order.reverse();
+  let orderIndex: number[] = [];
+  order.forEach((node, i) => orderIndex[node] = i);
+  let predecessors: number[][] = [];
+  order.forEach(node => {
+    successors[node].forEach(succ => {
+      (predecessors[succ] || (predecessors[succ] = [])).push(node);
+    });
+  });
+
+  let idom: number[] = [];
+  idom[root] = root;
+  function intersect(a: number, b: number): number {
+    while (a !== b) {
+      while (orderIndex[a] > orderIndex[b]) a = idom[a];
+      while (orderIndex[b] > orderIndex[a]) b = idom[b];
+    }
+    return a;
+  }
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let i = 1; i < order.length; i++) {
+      let node = order[i];
+      let newIdom = undefined;
+      predecessors[node].forEach(pred => {
+        if (idom[pred] === undefined) return;
+        newIdom = newIdom === undefined ? pred : intersect(pred, newIdom);
+      });
+      if (idom[node] !== newIdom) {
+        idom[node] = newIdom;
+        changed = true;
+      }
+    }
+  }
+
+  let retained = code.functions.map(f => f.size);
+  let reachable = code.functions.map((f, i) => !!visited[i]);
+  for (let i = order.length - 1; i > 0; i--) {
+    let node = order[i];
+    if (idom[node] !== root) retained[idom[node]] += retained[node];
+  }
+  return { retained: retained, reachable: reachable };
+}
+
+export function profileSize(wasm: Uint8Array): SizeProfile {
+  let moduleInfo = readModuleInfo(wasm);
+  let code = readCodeInfo(wasm);
+  let categories: { [name: string]: number } = {
+    header: 8, code: 0, data: 0, imports: 0, exports: 0, names: 0, custom: 0, other: 0
+  };
+  moduleInfo.sections.forEach(section => {
+    categories[sectionCategory(section.id, section.name)] += section.size;
+  });
+  let sizes = computeRetainedSizes(code);
+  return {
+    totalSize: wasm.byteLength,
+    categories: categories,
+    functions: code.functions.map((f, i) => ({
+      index: f.index,
+      name: functionName(code, f.index),
+      size: f.size,
+      retained: sizes.retained[i],
+      reachable: sizes.reachable[i]
+    }))
+  };
+}
+
+function delta(name: string, oldSize: number, newSize: number): FunctionSizeDelta {
+  return { name: name, oldSize: oldSize, newSize: newSize, delta: newSize - oldSize };
+}
+
+/**
+ * Compares two size profiles, matching functions by name. Functions without
+ * a name section entry are matched by index.
+ */
+export function diffSizeProfiles(oldProfile: SizeProfile, newProfile: SizeProfile): SizeDiff {
+  let oldByName = Object.create(null);
+  oldProfile.functions.forEach(f => oldByName[f.name] = f);
+  let functions = newProfile.functions.map(f => {
+    let old = oldByName[f.name];
+    delete oldByName[f.name];
+    return delta(f.name, old ? old.size : 0, f.size);
+  });
+  Object.keys(oldByName).forEach(name => {
+    functions.push(delta(name, oldByName[name].size, 0));
+  });
+  functions = functions.filter(f => f.delta !== 0)
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+  let categories = Object.keys(newProfile.categories).map(name =>
+    delta(name, oldProfile.categories[name] || 0, newProfile.categories[name]));
+  return {
+    totalSize: delta("total", oldProfile.totalSize, newProfile.totalSize),
+    categories: categories,
+    functions: functions
+  };
+}
+
+function percent(part: number, total: number): string {
+  return (total ? part / total * 100 : 0).toFixed(2) + "%";
+}
+
+function padRight(s: string, l: number) {
+  while (s.length < l) s = s + " ";
+  return s;
+}
+
+function csvField(s: string): string {
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function signed(n: number): string {
+  return (n > 0 ? "+" : "") + n;
+}
+
+export function topFunctions(profile: SizeProfile, top: number): FunctionSize[] {
+  let functions = profile.functions.slice(0).sort((a, b) => b.size - a.size);
+  return top ? functions.slice(0, top) : functions;
+}
+
+export function formatSizeProfile(profile: SizeProfile, format: string, top: number): string {
+  let functions = topFunctions(profile, top);
+  if (format === "json") {
+    return JSON.stringify({
+      totalSize: profile.totalSize,
+      categories: profile.categories,
+      functions: functions
+    }, null, 2);
+  }
+  if (format === "csv") {
+    return ["index,name,size,retained,reachable"].concat(functions.map(f =>
+      [f.index, csvField(f.name), f.size, f.retained, f.reachable].join(","))).join("\n");
+  }
+  let lines = [`Total size: ${profile.totalSize} bytes`];
+  Object.keys(profile.categories).forEach(name => {
+    let size = profile.categories[name];
+    lines.push(`  ${padRight(name, 10)} ${padRight(size.toString(), 10)} ` +
+               percent(size, profile.totalSize));
+  });
+  lines.push("");
+  lines.push(`${padRight("Size", 10)} ${padRight("%", 10)} ${padRight("Retained", 10)} Function`);
+  functions.forEach(f => {
+    lines.push(`${padRight(f.size.toString(), 10)} ` +
+               `${padRight(percent(f.size, profile.categories["code"]), 10)} ` +
+               `${padRight(f.retained.toString(), 10)} ` +
+               f.name + (f.reachable ? "" : " (unreachable)"));
+  });
+  return lines.join("\n");
+}
+
+export function formatSizeDiff(diff: SizeDiff, format: string, top: number): string {
+  let functions = top ? diff.functions.slice(0, top) : diff.functions;
+  if (format === "json") {
+    return JSON.stringify({
+      totalSize: diff.totalSize,
+      categories: diff.categories,
+      functions: functions
+    }, null, 2);
+  }
+  if (format === "csv") {
+    return ["name,old,new,delta"].concat(functions.map(f =>
+      [csvField(f.name), f.oldSize, f.newSize, f.delta].join(","))).join("\n");
+  }
+  function line(d: FunctionSizeDelta) {
+    return `${padRight(d.oldSize.toString(), 10)} ${padRight(d.newSize.toString(), 10)} ` +
+           `${padRight(signed(d.delta), 10)} ${d.name}`;
+  }
+  let lines = [`${padRight("Old", 10)} ${padRight("New", 10)} ${padRight("Delta", 10)} Name`];
+  lines.push(line(diff.totalSize));
+  diff.categories.forEach(c => lines.push(line(c)));
+  lines.push("");
+  if (functions.length === 0) lines.push("No function size changes.");
+  functions.forEach(f => lines.push(line(f)));
+  return lines.join("\n");
+}
@@ -0,0 +1,186 @@
+/*
+ * Copyright 2016 Mozilla Foundation
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { BinaryReader, WasmDisassembler, DefaultNameResolver } from 'wasmparser';
+import { CodeInfo, readCodeInfo, functionName } from './code-info';
+
+export interface SourceMapping {
+  // Byte offset in the wasm module.
+  offset: number;
+  source: string;
+  // 1-based line number.
+  line: number;
+}
+
+export interface SourceLine {
+  source: string;
+  line: number;
+  // The text of the line, when the source file can be read.
+  text: string;
+}
+
+const BASE64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+function decodeVLQ(segment: string): number[] {
+  let values = [];
+  let value = 0, shift = 0;
+  for (let i = 0; i < segment.length; i++) {
+    let digit = BASE64.indexOf(segment[i]);
+    if (digit < 0) throw new Error(`Invalid source map mapping: ${segment}`);
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+      continue;
+    }
+    values.push(value & 1 ? -(value >> 1) : value >> 1);
+    value = 0;
+    shift = 0;
+  }
+  return values;
+}
+
+/**
+ * Reads a wasm source map, as produced by emcc -g4, where the generated
+ * column of a mapping is a byte offset in the module. Sources are resolved
+ * relative to the map's directory.
+ */
+export function readSourceMap(mapPath: string): SourceMapping[] {
+  let json = JSON.parse(fs.readFileSync(mapPath).toString());
+  let root = path.resolve(path.dirname(mapPath), json.sourceRoot || "");
+  let sources: string[] = json.sources.map(source => path.resolve(root, source));
+  let mappings: SourceMapping[] = [];
+  let offset = 0, sourceIndex = 0, line = 0;
+  (<string>json.mappings).split(";").forEach(group => {
+    offset = 0;
+    group.split(",").forEach(segment => {
+      if (!segment) return;
+      let fields = decodeVLQ(segment);
+      offset += fields[0];
+      if (fields.length < 4) return;
+      sourceIndex += fields[1];
+      line += fields[2];
+      mappings.push({ offset: offset, source: sources[sourceIndex], line: line + 1 });
+    });
+  });
+  return mappings.sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * Returns the source map of a wasm file: the given one, or the .map file
+ * next to it, if there is one.
+ */
+export function findSourceMap(wasmPath: string, mapPath?: string): string {
+  if (mapPath) return mapPath;
+  return fs.existsSync(wasmPath + ".map") ? wasmPath + ".map" : null;
+}
+
+let sourceFileLines: { [path: string]: string[] } = Object.create(null);
+
+function readSourceLine(source: string, line: number): string {
+  if (!(source in sourceFileLines)) {
+    sourceFileLines[source] = fs.existsSync(source) ?
+      fs.readFileSync(source).toString().split(/\r?\n/) : null;
+  }
+  let lines = sourceFileLines[source];
+  return lines && line <= lines.length ? lines[line - 1] : null;
+}
+
+/**
+ * Returns the source lines each defined function was compiled from, by
+ * function index, in source order.
+ */
+export function functionSourceLines(wasm: Uint8Array, mappings: SourceMapping[]): { [index: number]: SourceLine[] } {
+  let result = Object.create(null);
+  let code = readCodeInfo(wasm);
+  let i = 0;
+  code.functions.forEach(f => {
+    while (i < mappings.length && mappings[i].offset < f.offset) i++;
+    let seen = Object.create(null);
+    let lines: SourceLine[] = [];
+    for (; i < mappings.length && mappings[i].offset < f.offset + f.size; i++) {
+      let mapping = mappings[i];
+      let key = mapping.source + ":" + mapping.line;
+      if (seen[key]) continue;
+      seen[key] = true;
+      lines.push({
+        source: mapping.source,
+        line: mapping.line,
+        text: readSourceLine(mapping.source, mapping.line)
+      });
+    }
+    if (lines.length === 0) return;
+    result[f.index] = lines.sort((a, b) =>
+      a.source < b.source ? -1 : a.source > b.source ? 1 : a.line - b.line);
+  });
+  return result;
+}
+
+export function formatSourceLine(line: SourceLine): string {
+  let location = `${path.relative(".", line.source)}:${line.line}`;
+  return line.text === null ? location : `${location}: ${line.text.trim()}`;
+}
+
+// Names functions after the names section, like wasm-dis does.
+class FunctionNameResolver extends DefaultNameResolver {
+  constructor(private info: CodeInfo) {
+    super();
+  }
+  getFunctionName(index: number, isImport: boolean, isRef: boolean): string {
+    return "$" + functionName(this.info, index);
+  }
+}
+
+/**
+ * Disassembles a module into the text format, one instruction per line, and
+ * adds the source line an instruction was compiled from as a comment before
+ * it, whenever it differs from the one of the previous instruction of the
+ * function.
+ */
+export function disassembleWithSourceLines(wasm: Uint8Array, mappings: SourceMapping[]): string {
+  let reader = new BinaryReader();
+  reader.setData(wasm.buffer, wasm.byteOffset, wasm.byteLength);
+  let disassembler = new WasmDisassembler();
+  disassembler.addOffsets = true;
+  disassembler.nameResolver = new FunctionNameResolver(readCodeInfo(wasm));
+  if (!disassembler.disassembleChunk(reader)) throw new Error("Cannot disassemble the module.");
+  let result = disassembler.getResult();
+  let byOffset: { [offset: number]: SourceMapping } = Object.create(null);
+  mappings.forEach(mapping => {
+    byOffset[mapping.offset] = mapping;
+  });
+  let out = [];
+  let current = null;
+  result.lines.forEach((line, i) => {
+    if (/^\s*\(func\b/.test(line)) current = null;
+    // Only instruction lines, as the function headers and closing parentheses
+    // share offsets with them.
+    let mapping = /^\s*[()]/.test(line) ? null : byOffset[result.offsets[i]];
+    let key = mapping && mapping.source + ":" + mapping.line;
+    if (mapping && key !== current) {
+      current = key;
+      let sourceLine = {
+        source: mapping.source,
+        line: mapping.line,
+        text: readSourceLine(mapping.source, mapping.line)
+      };
+      out.push(`${/^\s*/.exec(line)[0]};; ${formatSourceLine(sourceLine)}`);
+    }
+    out.push(line);
+  });
+  return out.join("\n");
+}
@@ -0,0 +1,151 @@
+/*
+ * Copyright 2016 Mozilla Foundation
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as fs from "fs";
+import { TestResult, TestRun } from "./runtime";
+
+/**
+ * Expected behavior of a test export, as recorded in the golden file of its
+ * module: `<module>.golden.json`, mapping export names to Golden objects.
+ */
+export interface Golden {
+  result?: number;
+  output: string[];
+  trap?: boolean;
+}
+
+export interface GoldenFile {
+  [test: string]: Golden;
+}
+
+export interface TestCase {
+  name: string;
+  // In milliseconds.
+  duration: number;
+  // Why the test failed, null when it passed.
+  failure: string;
+}
+
+export interface TestSuite {
+  name: string;
+  cases: TestCase[];
+}
+
+export function goldenPath(modulePath: string): string {
+  return modulePath.replace(/\.[^./\\]*$/, "") + ".golden.json";
+}
+
+export function readGoldenFile(goldenFile: string): GoldenFile {
+  if (!fs.existsSync(goldenFile)) return Object.create(null);
+  return JSON.parse(fs.readFileSync(goldenFile).toString());
+}
+
+export function writeGoldenFile(goldenFile: string, run: TestRun) {
+  let golden: GoldenFile = {};
+  run.tests.forEach(test => {
+    let entry = <Golden>{};
+    if (test.trap !== undefined) entry.trap = true;
+    else if (test.result !== undefined) entry.result = test.result;
+    entry.output = test.output;
+    golden[test.name] = entry;
+  });
+  fs.writeFileSync(goldenFile, JSON.stringify(golden, null, 2) + "\n");
+}
+
+/**
+ * Compares a test with its golden output. Trap messages differ between
+ * engines, so only whether the test traps is compared.
+ */
+export function checkTest(test: TestResult, golden: Golden): string {
+  if (!golden) return "No golden output, run with --update to record it.";
+  let failures = [];
+  if (test.trap !== undefined && !golden.trap) {
+    failures.push(`Trapped: ${test.trap}`);
+  } else if (test.trap === undefined && golden.trap) {
+    failures.push("Expected a trap.");
+  } else if (test.result !== golden.result) {
+    failures.push(`Returned ${test.result}, expected ${golden.result}.`);
+  }
+  let output = golden.output || [];
+  if (test.output.join("\n") !== output.join("\n")) {
+    failures.push(`Printed [${test.output.join(", ")}], expected [${output.join(", ")}].`);
+  }
+  return failures.length > 0 ? failures.join("\n") : null;
+}
+
+export function createTestSuite(name: string, run: TestRun, golden: GoldenFile): TestSuite {
+  let cases = run.tests.map(test => ({
+    name: test.name,
+    duration: test.duration,
+    failure: checkTest(test, golden[test.name])
+  }));
+  if (run.error) cases.push({ name: "(load)", duration: 0, failure: run.error });
+  return { name: name, cases: cases };
+}
+
+export function countFailures(suites: TestSuite[]): number {
+  return suites.reduce((n, suite) => n + suite.cases.filter(c => c.failure !== null).length, 0);
+}
+
+export function formatTAP(suites: TestSuite[]): string {
+  let lines = ["TAP version 13"];
+  let n = 0;
+  suites.forEach(suite => {
+    suite.cases.forEach(c => {
+      n++;
+      lines.push(`${c.failure === null ? "ok" : "not ok"} ${n} - ${suite.name}: ${c.name}`);
+      if (c.failure === null) return;
+      lines.push("  ---");
+      lines.push(`  message: ${JSON.stringify(c.failure)}`);
+      lines.push(`  duration_ms: ${c.duration.toFixed(3)}`);
+      lines.push("  ...");
+    });
+  });
+  lines.splice(1, 0, `1..${n}`);
+  return lines.join("\n") + "\n";
+}
+
+function escapeXML(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+          .replace(/"/g, "&quot;");
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+export function formatJUnit(suites: TestSuite[]): string {
+  let total = suites.reduce((n, suite) => n + suite.cases.length, 0);
+  let lines = ['<?xml version="1.0" encoding="UTF-8"?>',
+               `<testsuites tests="${total}" failures="${countFailures(suites)}">`];
+  suites.forEach(suite => {
+    let time = suite.cases.reduce((t, c) => t + c.duration, 0);
+    lines.push(`  <testsuite name="${escapeXML(suite.name)}" tests="${suite.cases.length}" ` +
+               `failures="${countFailures([suite])}" time="${seconds(time)}">`);
+    suite.cases.forEach(c => {
+      let attributes = `classname="${escapeXML(suite.name)}" name="${escapeXML(c.name)}" time="${seconds(c.duration)}"`;
+      if (c.failure === null) {
+        lines.push(`    <testcase ${attributes}/>`);
+        return;
+      }
+      lines.push(`    <testcase ${attributes}>`);
+      lines.push(`      <failure message="${escapeXML(c.failure.split("\n")[0])}">${escapeXML(c.failure)}</failure>`);
+      lines.push("    </testcase>");
+    });
+    lines.push("  </testsuite>");
+  });
+  lines.push("</testsuites>");
+  return lines.join("\n") + "\n";
+}
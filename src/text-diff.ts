@@ -0,0 +1,165 @@
+/*
+ * Copyright 2016 Mozilla Foundation
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export type DiffOperation = " " | "-" | "+";
+
+export interface DiffLine {
+  op: DiffOperation;
+  text: string;
+  // Line numbers in the old and new text, starting at 1.
+  oldLine: number;
+  newLine: number;
+}
+
+const NO_NEWLINE = "\n\\ No newline at end of file";
+
+// A last line without a newline carries the marker of unified diffs, so that
+// it differs from the same line with one, and the marker is printed after it.
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  let lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  else lines[lines.length - 1] += NO_NEWLINE;
+  return lines;
+}
+
+// Finds the middle snake of the shortest edit script of a[aLo..aHi) and
+// b[bLo..bHi), as in Myers' "An O(ND) Difference Algorithm and Its
+// Variations": the diagonal run where the forward and backward searches meet.
+// Returns its start and end as [x, y, u, v], relative to aLo and bLo.
+function middleSnake(a: string[], aLo: number, aHi: number,
+                     b: string[], bLo: number, bHi: number): number[] {
+  let n = aHi - aLo, m = bHi - bLo, delta = n - m;
+  let max = Math.ceil((n + m) / 2), offset = max + 1;
+  // Furthest x reached on each diagonal k = x - y, forward from the start and
+  // backward from the end.
+  let forward = new Int32Array(2 * max + 3), backward = new Int32Array(2 * max + 3);
+  for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1]) ?
+        forward[offset + k + 1] : forward[offset + k - 1] + 1;
+      let y = x - k, x0 = x, y0 = y;
+      while (x < n && y < m && a[aLo + x] === b[bLo + y]) { x++; y++; }
+      forward[offset + k] = x;
+      if ((delta & 1) !== 0 && k >= delta - (d - 1) && k <= delta + (d - 1) &&
+          x + backward[offset + delta - k] >= n) {
+        return [x0, y0, x, y];
+      }
+    }
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1]) ?
+        backward[offset + k + 1] : backward[offset + k - 1] + 1;
+      let y = x - k, x0 = x, y0 = y;
+      while (x < n && y < m && a[aHi - 1 - x] === b[bHi - 1 - y]) { x++; y++; }
+      backward[offset + k] = x;
+      if ((delta & 1) === 0 && delta - k >= -d && delta - k <= d &&
+          x + forward[offset + delta - k] >= n) {
+        return [n - x, m - y, n - x0, m - y0];
+      }
+    }
+  }
+  throw new Error("No middle snake");
+}
+
+function diffRange(a: string[], aLo: number, aHi: number, b: string[], bLo: number, bHi: number,
+                   ops: DiffOperation[]) {
+  let prefix = 0;
+  while (aLo + prefix < aHi && bLo + prefix < bHi && a[aLo + prefix] === b[bLo + prefix]) prefix++;
+  let suffix = 0;
+  while (aLo + prefix + suffix < aHi && bLo + prefix + suffix < bHi &&
+         a[aHi - 1 - suffix] === b[bHi - 1 - suffix]) suffix++;
+  for (let k = 0; k < prefix; k++) ops.push(" ");
+  aLo += prefix; bLo += prefix; aHi -= suffix; bHi -= suffix;
+  if (aLo === aHi || bLo === bHi) {
+    for (let i = aLo; i < aHi; i++) ops.push("-");
+    for (let j = bLo; j < bHi; j++) ops.push("+");
+  } else {
+    let snake = middleSnake(a, aLo, aHi, b, bLo, bHi);
+    diffRange(a, aLo, aLo + snake[0], b, bLo, bLo + snake[1], ops);
+    for (let k = snake[0]; k < snake[2]; k++) ops.push(" ");
+    diffRange(a, aLo + snake[2], aHi, b, bLo + snake[3], bHi, ops);
+  }
+  for (let k = 0; k < suffix; k++) ops.push(" ");
+}
+
+/**
+ * Diff of two lists of lines: a shortest edit script, found with Myers'
+ * linear space algorithm in O((N + M) D) time. Within each run of changes,
+ * deletions come before insertions.
+ */
+export function diffLines(a: string[], b: string[]): DiffLine[] {
+  let ops: DiffOperation[] = [];
+  diffRange(a, 0, a.length, b, 0, b.length, ops);
+  let result: DiffLine[] = [];
+  let i = 0, j = 0;
+  let push = (op: DiffOperation, text: string) => {
+    result.push({ op: op, text: text, oldLine: i + 1, newLine: j + 1 });
+    if (op !== "+") i++;
+    if (op !== "-") j++;
+  };
+  let k = 0;
+  while (k < ops.length) {
+    if (ops[k] === " ") {
+      push(" ", a[i]);
+      k++;
+      continue;
+    }
+    let deleted = 0, inserted = 0;
+    for (; k < ops.length && ops[k] !== " "; k++) {
+      if (ops[k] === "-") deleted++;
+      else inserted++;
+    }
+    let added = b.slice(j, j + inserted);
+    a.slice(i, i + deleted).forEach(line => push("-", line));
+    added.forEach(line => push("+", line));
+  }
+  return result;
+}
+
+function range(start: number, count: number): string {
+  if (count === 0) return `${start - 1},0`;
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+/**
+ * Formats the differences between two texts as a unified diff, with three
+ * lines of context. Returns an empty string when the texts are the same.
+ */
+export function unifiedDiff(oldText: string, newText: string, oldName: string, newName: string,
+                            context = 3): string {
+  let lines = diffLines(splitLines(oldText), splitLines(newText));
+  let changes = [];
+  lines.forEach((line, k) => {
+    if (line.op !== " ") changes.push(k);
+  });
+  if (changes.length === 0) return "";
+  let out = [`--- ${oldName}`, `+++ ${newName}`];
+  let k = 0;
+  while (k < changes.length) {
+    // Changes closer than twice the context share a hunk.
+    let first = changes[k];
+    while (k + 1 < changes.length && changes[k + 1] - changes[k] <= 2 * context) k++;
+    let start = Math.max(0, first - context);
+    let end = Math.min(lines.length, changes[k] + context + 1);
+    let hunk = lines.slice(start, end);
+    let oldCount = hunk.filter(line => line.op !== "+").length;
+    let newCount = hunk.filter(line => line.op !== "-").length;
+    out.push(`@@ -${range(hunk[0].oldLine, oldCount)} +${range(hunk[0].newLine, newCount)} @@`);
+    hunk.forEach(line => out.push(line.op + line.text));
+    k++;
+  }
+  return out.join("\n") + "\n";
+}
@@ -17,6 +17,7 @@
 
 import * as fs from "fs-extra";
 import * as path from "path";
+import * as crypto from "crypto";
 import { ArgumentParser } from "argparse";
 import {
   appendFilesSync, spawnSync, fail, pathLooksLikeDirectory, endsWith,
@@ -27,8 +28,72 @@ import {
   WASDK_DEBUG, EMCC, JS, ASSEMBLER, DISASSEMBLER, WEBIDL_BINDER, TMP_DIR,
   EMSCRIPTEN_ROOT, LLVM_ROOT, BINARYEN_ROOT, SPIDERMONKEY_ROOT, EM_CONFIG
 } from "./shared";
+import {
+  ModuleInterface, FunctionSignature, signatureToString, readModuleInterface,
+  readModuleInfo, formatModuleInfo, externalKindName
+} from "./module-info";
+import {
+  profileSize, diffSizeProfiles, formatSizeProfile, formatSizeDiff
+} from "./size-profile";
+import { readWasmFile, readWasmTextFile, runModuleInNode, runTestsInNode } from "./node-host";
+import { readCodeInfo } from "./code-info";
+import { formatAnalysis } from "./code-analysis";
+import { TestOptions, TestRun } from "./runtime";
+import {
+  TestSuite, goldenPath, readGoldenFile, writeGoldenFile, createTestSuite, countFailures,
+  formatTAP, formatJUnit
+} from "./test-runner";
+import {
+  readSourceMap, findSourceMap, functionSourceLines, formatSourceLine, disassembleWithSourceLines
+} from "./source-map";
+import { compileCached, parseDependencyFile } from "./build-cache";
+import { generateLoader } from "./loader-gen";
+import {
+  validateConfig, validateRequiredKeys, checkConfigFiles, formatConfigErrors
+} from "./config-schema";
+import {
+  parseIdlOperations, checkConformance, formatConformanceIssues, ConformanceIssue
+} from "./idl-check";
+import { generateIdlTypes, generateIdlDeclarations } from "./idl-dts";
+import {
+  IdlOutput, findBodyConflicts, formatBodyConflict, backupPath, isChanged
+} from "./idl-update";
+import { unifiedDiff } from "./text-diff";
 import { WebIDLWasmGen, parseModuleOperations } from "wasdk-idl";
+import { ExternalKind } from "wasmparser";
 var colors = require('colors');
+
+const SOURCE_EXTENSIONS = /\.(c|cc|cpp|cxx)$/i;
+const CXX_EXTENSIONS = /\.(cc|cpp|cxx)$/i;
+
+// Output of `emcc --version`, read once by getToolchainVersion.
+let toolchainVersion: string = null;
+
+// Sections holding compiler and emcc flags, whose arrays accumulate.
+const FLAG_SECTIONS = ["compilerOptions", "options"];
+
+// Config files read by the last loadEzConfigs call, base configs included.
+let loadedConfigFiles: string [] = [];
+
+const builtinProfiles: { [name: string]: Profile } = {
+  debug: {
+    compilerOptions: { optimizationLevel: "0", debugInfo: true }
+  },
+  release: {
+    compilerOptions: { optimizationLevel: "3", defines: { NDEBUG: true } }
+  }
+};
+
+// Runtime functions the shell environment supplies to every module.
+const RUNTIME_IMPORTS = [
+  "enlargeMemory", "getTotalMemory", "abortOnCannotGrowMemory", "_abort",
+  "_emscripten_memcpy_big", "___setErrNo"
+];
+
+// Polling interval of the watched files and delay before a rebuild, in ms.
+const WATCH_INTERVAL = 250;
+const WATCH_DELAY = 100;
+
 var parser = new ArgumentParser({
   version: '0.0.1',
   addHelp: true,
@@ -45,16 +110,56 @@ let ezParser = subparsers.addParser('ez', { help: "Compile .c/.cpp files.", addH
 ezParser.addArgument(['-o', '--output'], { help: 'Output file.' });
 ezParser.addArgument(['--idl'], { help: 'WebIDL file.' });
 ezParser.addArgument(['--debuginfo', '-g'], { action: 'storeTrue', help: 'Emit names section and debug info' });
+ezParser.addArgument(['--profile'], { help: 'Build profile, e.g. debug or release.' });
+ezParser.addArgument(['--watch', '-w'], { action: 'storeTrue', help: 'Rebuild when inputs change' });
+ezParser.addArgument(['--print-config'], { action: 'storeTrue', dest: 'printConfig', help: 'Print the resolved config and exit' });
+ezParser.addArgument(['--no-cache'], { action: 'storeTrue', dest: 'noCache', help: 'Recompile all files without using the build cache' });
 ezParser.addArgument(['input'], { help: 'Input file(s).' });
 
 let idlGenerator = subparsers.addParser('idl', { help: "Generate idl-based project:  .j/.c/.cpp files.", addHelp: true });
 idlGenerator.addArgument(['input'], { help: 'Input .idl file.' });
+idlGenerator.addArgument(['module'], { nargs: '?', help: 'Compiled .wasm/.wast module to check against the IDL with --check.' });
+idlGenerator.addArgument(['--dts-only'], { action: 'storeTrue', dest: 'dtsOnly', help: 'Only generate the TypeScript declarations (.d.ts).' });
+idlGenerator.addArgument(['--check'], { action: 'storeTrue', help: 'Fail if the generated files are out of date, or with a module, check that it exports the IDL operations with matching signatures.' });
+idlGenerator.addArgument(['--dry-run'], { action: 'storeTrue', dest: 'dryRun', help: 'Print a diff of the changes to the generated files without writing them.' });
 idlGenerator.addArgument(['-o', '--output'], { help: 'Output directory.' });
 idlGenerator.addArgument(['-n', '--namespace'], {help: 'C++ namespace'});
 idlGenerator.addArgument(['-p', '--prefix'], {help: 'Filename prefix for .js/.h/.cpp'});
 
 let smParser = subparsers.addParser('disassemble', { help: "Disassemble files.", addHelp: true });
-smParser.addArgument(['input'], { help: 'Input .wast/.wasm file.' });
+smParser.addArgument(['input'], { nargs: '+', help: 'Input .wast/.wasm file(s).' });
+smParser.addArgument(['--diff'], { action: 'storeTrue', help: 'Compare the compiled code of two modules: old and new.' });
+smParser.addArgument(['--function'], { help: 'Only disassemble functions matching a name, an index or a /regular expression/.' });
+smParser.addArgument(['--cfg'], { help: 'Print the control-flow graph of the matching functions as Graphviz DOT, or JSON with --format json.' });
+smParser.addArgument(['--source-map'], { help: 'Source map to annotate the output with, defaults to <input>.map.' });
+smParser.addArgument(['--format'], { help: 'Output format.', choices: ['text', 'json', 'html'], defaultValue: 'text' });
+
+let analyzeParser = subparsers.addParser('analyze', { help: "Analyze WebAssembly bytecode and call graph", addHelp: true });
+analyzeParser.addArgument(['input'], { help: 'Input .wast/.wasm file.' });
+analyzeParser.addArgument(['--format'], { help: 'Output format, dot prints the call graph.', choices: ['text', 'json', 'dot'], defaultValue: 'text' });
+
+let runParser = subparsers.addParser('run', { help: "Run an export of a WebAssembly module", addHelp: true });
+runParser.addArgument(['input'], { help: 'Input .wast/.wasm file.' });
+runParser.addArgument(['--host'], { help: 'Module providing _malloc and _free, e.g. malloc.wasm.' });
+runParser.addArgument(['--invoke'], { nargs: '+', metavar: 'EXPORT', help: 'Export to call, followed by its arguments.' });
+runParser.addArgument(['--check-imports'], { action: 'storeTrue', help: 'List the imports of the modules as provided, stubbed or missing, without running them.' });
+runParser.addArgument(['--track-allocations'], { action: 'storeTrue', help: 'Record the allocations made with the host\'s _malloc and _free, and report leaks and invalid frees.' });
+runParser.addArgument(['--trace'], { action: 'storeTrue', help: 'Log calls to imports and exports with their arguments, results and durations.' });
+runParser.addArgument(['--engine'], { choices: ['sm', 'node'], defaultValue: 'sm', help: 'Engine to run the module with: the SpiderMonkey shell or Node.' });
+runParser.addArgument(['--maximum-memory'], { type: 'int', defaultValue: 32, metavar: 'MB', help: 'Maximum size the memory can grow to, in megabytes.' });
+runParser.addArgument(['--instances'], { type: 'int', defaultValue: 1, help: 'Number of instances of the module to run the export in.' });
+runParser.addArgument(['--symbol-precedence'], { choices: ['first', 'last'], defaultValue: 'first', help: 'Which module an import links to when several modules export the symbol.' });
+
+let testParser = subparsers.addParser('test', { help: "Run the test exports of WebAssembly modules against golden files", addHelp: true });
+testParser.addArgument(['input'], { nargs: '+', help: 'Config .json files to build with ez, or .wasm/.wast modules.' });
+testParser.addArgument(['--host'], { help: 'Module providing _malloc and _free, e.g. malloc.wasm.' });
+testParser.addArgument(['--pattern'], { defaultValue: '^_?test(_|$)', help: 'Regular expression matching the exports to run as tests.' });
+testParser.addArgument(['--update'], { action: 'storeTrue', help: 'Record the results in the golden files instead of checking them.' });
+testParser.addArgument(['--format'], { choices: ['tap', 'junit'], defaultValue: 'tap', help: 'Report format.' });
+testParser.addArgument(['--report'], { help: 'Write the report to a file instead of stdout.' });
+testParser.addArgument(['--engine'], { choices: ['sm', 'node'], defaultValue: 'sm', help: 'Engine to run the tests with: the SpiderMonkey shell or Node.' });
+testParser.addArgument(['--maximum-memory'], { type: 'int', defaultValue: 32, metavar: 'MB', help: 'Maximum size the memory can grow to, in megabytes.' });
+testParser.addArgument(['--no-cache'], { action: 'storeTrue', dest: 'noCache', help: 'Recompile all files without using the build cache' });
 
 let emccParser = subparsers.addParser('emcc', { help: "Emscripten Compiler", addHelp: true });
 emccParser.addArgument(['args'], { nargs: '...' });
@@ -64,6 +169,17 @@ jsParser.addArgument(['args'], { nargs: '...' });
 
 let dumpParser = subparsers.addParser('dump', { help: "Print WebAssembly text", addHelp: true });
 dumpParser.addArgument(['input'], { help: 'Input .wasm file.' });
+dumpParser.addArgument(['--source-map'], { help: 'Source map to annotate the output with, defaults to <input>.map.' });
+
+let infoParser = subparsers.addParser('info', { help: "Print WebAssembly module structure", addHelp: true });
+infoParser.addArgument(['input'], { help: 'Input .wasm/.wast file.' });
+infoParser.addArgument(['--json'], { action: 'storeTrue', help: 'Print JSON' });
+
+let sizeParser = subparsers.addParser('size', { help: "Print code size profile", addHelp: true });
+sizeParser.addArgument(['input'], { nargs: '+', help: 'Input .wasm/.wast file(s).' });
+sizeParser.addArgument(['--diff'], { action: 'storeTrue', help: 'Compare the sizes of two modules' });
+sizeParser.addArgument(['--top'], { type: 'int', help: 'Print only the N largest functions' });
+sizeParser.addArgument(['--format'], { choices: ['text', 'json', 'csv'], defaultValue: 'text', help: 'Output format' });
 
 let asParser = subparsers.addParser('as', { help: "WebAssembly text-to-binary", addHelp: true });
 asParser.addArgument(['input'], { help: 'Input .wast file.' });
@@ -79,7 +195,12 @@ if (cliArgs.command === "sdk") sdk();
 if (cliArgs.command === "idl") idl();
 if (cliArgs.command === "ez") ezCompile();
 if (cliArgs.command === "disassemble") disassemble();
+if (cliArgs.command === "analyze") analyze();
+if (cliArgs.command === "run") run();
+if (cliArgs.command === "test") testModules();
 if (cliArgs.command === "dump") dump();
+if (cliArgs.command === "info") info();
+if (cliArgs.command === "size") size();
 if (cliArgs.command === "as") assemble();
 
 function section(name) {
@@ -107,10 +228,13 @@ function patchEM() {
     "if not settings['ONLY_MY_CODE'] and settings['ALLOW_MEMORY_GROWTH']:$1");
   fs.writeFileSync(emscriptenPath, s);
 }
-function install() {
+function readThirdpartyConfig(): any {
   var thirdpartyConfigPath = process.env.WASDK_3PARTY ||
                              path.join(__dirname, "..", "thirdparty.json");
-  let thirdpartyConfig = JSON.parse(fs.readFileSync(thirdpartyConfigPath).toString());
+  return JSON.parse(fs.readFileSync(thirdpartyConfigPath).toString());
+}
+function install() {
+  let thirdpartyConfig = readThirdpartyConfig();
   let url, filename;
   let platform = process.platform;
   if (platform !== "darwin" && platform !== "linux" && platform !== "win32")
@@ -148,58 +272,154 @@ function clean() {
   deleteFileSync(EMSCRIPTEN_ROOT);
 }
 
-function updateHFile(hFilePath: string, gen: WebIDLWasmGen) {
-  if (!fs.existsSync(hFilePath)) {
-    fs.writeFileSync(hFilePath, gen.getHCode());
+function readIfExists(filePath: string): string {
+  return fs.existsSync(filePath) ? fs.readFileSync(filePath).toString() : null;
+}
+function generatedOutput(filePath: string, content: string): IdlOutput {
+  return { path: filePath, content: content, old: readIfExists(filePath), merged: false, conflicts: [] };
+}
+// The .h and .cpp files are merged with the user's edits.
+function mergedOutput(filePath: string, generated: string, merge: (old: string) => string): IdlOutput {
+  let old = readIfExists(filePath);
+  if (old === null) return generatedOutput(filePath, generated);
+  let content = merge(old);
+  let conflicts = findBodyConflicts(path.relative(".", filePath), old, generated, content);
+  return { path: filePath, content: content, old: old, merged: true, conflicts: conflicts };
+}
+function idl() {
+  if (cliArgs.check && cliArgs.module) {
+    let issues = checkIdlConformance(cliArgs.input, readWasmFile(cliArgs.module));
+    formatConformanceIssues(issues).forEach(line => console.log(line));
+    let errors = issues.filter(issue => issue.kind !== "extra").length;
+    if (errors > 0) fail(`${cliArgs.module} does not conform to ${cliArgs.input}: ${errors} error(s).`);
+    console.log(`${cliArgs.module} conforms to ${cliArgs.input}.`);
     return;
   }
-  var old = fs.readFileSync(hFilePath).toString();
-  fs.writeFileSync(hFilePath + '.bak', old);
-  var combined = gen.updateHCode(old);
-  fs.writeFileSync(hFilePath, combined);
-}
-function updateCxxFile(cxxFilePath: string, gen: WebIDLWasmGen) {
-  if (!fs.existsSync(cxxFilePath)) {
-    fs.writeFileSync(cxxFilePath, gen.getCxxCode());
+  if (cliArgs.module) fail(`Unexpected module ${cliArgs.module}, it is only checked with --check.`);
+  let outputs = planIdlOutputs(cliArgs.input, cliArgs.output, cliArgs.prefix, cliArgs.namespace,
+                               cliArgs.dtsOnly);
+  if (cliArgs.dryRun) {
+    outputs.filter(isChanged).forEach(output => {
+      let name = path.relative(".", output.path);
+      process.stdout.write(unifiedDiff(output.old || "", output.content,
+                                       output.old === null ? "/dev/null" : name, name));
+    });
+    printBodyConflicts(outputs);
+    return;
+  }
+  if (cliArgs.check) {
+    let stale = outputs.filter(isChanged);
+    stale.forEach(output => console.log(`${path.relative(".", output.path)} is out of date.`));
+    printBodyConflicts(outputs);
+    if (stale.length > 0) fail(`The files generated from ${cliArgs.input} are out of date, run wasdk idl without --check to update them.`);
+    console.log(`The files generated from ${cliArgs.input} are up to date.`);
     return;
   }
-  var old = fs.readFileSync(cxxFilePath).toString();
-  fs.writeFileSync(cxxFilePath + '.bak', old);
-  var combined = gen.updateCxxCode(old);
-  fs.writeFileSync(cxxFilePath, combined);
+  writeIdlOutputs(outputs);
 }
-function idl() {
-  var idlPath = cliArgs.input;
+function printBodyConflicts(outputs: IdlOutput [], backups: { [path: string]: string } = {}) {
+  outputs.forEach(output => {
+    output.conflicts.forEach(conflict => {
+      console.log(formatBodyConflict(conflict, backups[output.path] && path.relative(".", backups[output.path])).yellow);
+    });
+  });
+}
+function checkIdlConformance(idlPath: string, wasm: Uint8Array, declared: string [] = []): ConformanceIssue [] {
+  let operations;
+  try {
+    operations = parseIdlOperations(fs.readFileSync(idlPath).toString());
+  } catch (e) {
+    fail(`Cannot parse ${idlPath}: ${e.message}`);
+  }
+  if (!operations) fail("WebIDL file must declare a Module interface.");
+  return checkConformance(operations, readModuleInterface(wasm), declared);
+}
+/**
+ * Returns the files `wasdk idl` generates, with their current and new
+ * contents, without writing anything.
+ */
+function planIdlOutputs(idlPath: string, outputDir?: string, fileprefix?: string, namespace?: string,
+                        dtsOnly: boolean = false): IdlOutput [] {
   var basename = path.basename(idlPath, path.extname(idlPath));
-  var outputDir = cliArgs.output || basename;
-  ensureDirectoryCreatedSync(outputDir);
-  var fileprefix = cliArgs.prefix || basename;
-  var namespace = cliArgs.namespace || (fileprefix[0].toUpperCase() + fileprefix.slice(1));
+  outputDir = outputDir || basename;
+  fileprefix = fileprefix || basename;
+  namespace = namespace || (fileprefix[0].toUpperCase() + fileprefix.slice(1));
   if (!/^\w+$/.test(namespace)) throw new Error('Invalid C++ namespace: ' + namespace);
 
-  var gen = new WebIDLWasmGen(namespace, fileprefix);
   var idlContent = fs.readFileSync(idlPath).toString();
+  let outputs = [generatedOutput(path.join(outputDir, fileprefix + '.d.ts'),
+                                 generateIdlDeclarations(idlContent, path.basename(idlPath)))];
+  if (dtsOnly) return outputs;
+  var gen = new WebIDLWasmGen(namespace, fileprefix);
   gen.parse(idlContent);
-  fs.writeFileSync(path.join(outputDir, fileprefix + '.js'), gen.getJSCode());
-  fs.writeFileSync(path.join(outputDir, fileprefix + '.json'), gen.getJsonCode());
-  updateHFile(path.join(outputDir, fileprefix + '.h'), gen);
-  updateCxxFile(path.join(outputDir, fileprefix + '.cpp'), gen);
+  return outputs.concat([
+    generatedOutput(path.join(outputDir, fileprefix + '.js'), gen.getJSCode()),
+    generatedOutput(path.join(outputDir, fileprefix + '.json'), gen.getJsonCode()),
+    mergedOutput(path.join(outputDir, fileprefix + '.h'), gen.getHCode(), old => gen.updateHCode(old)),
+    mergedOutput(path.join(outputDir, fileprefix + '.cpp'), gen.getCxxCode(), old => gen.updateCxxCode(old))
+  ]);
+}
+/**
+ * Writes the changed outputs. Merged files are backed up first, under a
+ * timestamped name, and the method bodies the merge dropped or replaced are
+ * reported.
+ */
+function writeIdlOutputs(outputs: IdlOutput []) {
+  let backups: { [path: string]: string } = Object.create(null);
+  outputs.filter(isChanged).forEach(output => {
+    ensureDirectoryCreatedSync(path.dirname(output.path));
+    if (output.merged) {
+      backups[output.path] = backupPath(output.path);
+      fs.writeFileSync(backups[output.path], output.old);
+    }
+    fs.writeFileSync(output.path, output.content);
+  });
+  printBodyConflicts(outputs, backups);
+}
+function generateIdl(idlPath: string, outputDir?: string, fileprefix?: string, namespace?: string) {
+  writeIdlOutputs(planIdlOutputs(idlPath, outputDir, fileprefix, namespace));
 }
 
+interface CompilerOptions {
+  optimizationLevel?: string;
+  defines?: { [name: string]: (string | number | boolean) };
+  includeDirs?: string [];
+  std?: string;
+  exceptions?: boolean;
+  debugInfo?: boolean;
+  flags?: string [];
+}
+interface Profile {
+  compilerOptions?: CompilerOptions;
+  options?: any;
+}
 interface Config {
+  extends?: string;
   files: string [];
   dependencies?: string [],
   interface?: string;
+  idlOutput?: string;
   output?: string;
+  compilerOptions: CompilerOptions;
+  profiles?: { [name: string]: Profile };
+  targets?: any [];
   options: {
     EXPORTED_RUNTIME_METHODS: string [],
     EXPORTED_FUNCTIONS: string [],
     SIDE_MODULE: number,
     ALLOW_MEMORY_GROWTH: number,
     RELOCATABLE: number,
-    VERBOSE: number
+    VERBOSE: number,
+    NO_FILESYSTEM: number,
+    NO_EXIT_RUNTIME: number,
+    BINARYEN_IMPRECISE: number
   }
 }
+interface TargetConfig extends Config {
+  name: string;
+  dependsOn?: string [];
+  externals?: string [];
+}
 function resolveConfig(config: Config, configPath: string = null) {
   let configRoot = null;
   if (configPath) {
@@ -213,10 +433,20 @@ function resolveConfig(config: Config, configPath: string = null) {
   }
   config.files = config.files.map(resolvePath);
   config.interface = resolvePath(config.interface);
+  config.idlOutput = resolvePath(config.idlOutput);
+  if (config.compilerOptions.includeDirs) {
+    config.compilerOptions.includeDirs =
+      config.compilerOptions.includeDirs.map(resolvePath);
+  }
 
   if (config.output) {
     config.output = resolvePath(config.output);
   }
+  let errors = checkConfigFiles(config);
+  if (errors.length > 0) {
+    let name = (<TargetConfig>config).name;
+    fail(formatConfigErrors(configPath, name ? errors.map(e => `${name}: ${e}`) : errors));
+  }
   if (config.interface) {
     let members = parseModuleOperations(
       fs.readFileSync(config.interface).toString());
@@ -233,8 +463,45 @@ function dumpWasm(wasmPath: string): string {
   return res.stdout.toString();
 }
 function dump() {
+  let sourceMap = findSourceMap(cliArgs.input, cliArgs.source_map);
+  // Annotating needs the offset of every instruction, which wasm-dis doesn't
+  // print.
+  if (sourceMap) {
+    console.log(disassembleWithSourceLines(readWasmFile(cliArgs.input), readSourceMap(sourceMap)));
+    return;
+  }
   console.log(dumpWasm(cliArgs.input));
 }
+function info() {
+  let input: string = cliArgs.input;
+  if (path.extname(input).toLowerCase() !== ".wast") {
+    printModuleInfo(readWasmFile(input));
+    return;
+  }
+  readWasmTextFile(input).then(printModuleInfo, e => fail(`Cannot assemble ${input}: ${e.message}`));
+}
+function printModuleInfo(wasm: Uint8Array) {
+  let moduleInfo = readModuleInfo(wasm);
+  if (cliArgs.json) {
+    console.log(JSON.stringify(moduleInfo, (key, value) =>
+      key === "kind" ? externalKindName(value) : value, 2));
+    return;
+  }
+  console.log(formatModuleInfo(moduleInfo));
+}
+function size() {
+  let inputs: string [] = cliArgs.input;
+  if (cliArgs.diff) {
+    if (inputs.length !== 2) fail("--diff expects two modules: old and new.");
+    let diff = diffSizeProfiles(profileSize(readWasmFile(inputs[0])),
+                                profileSize(readWasmFile(inputs[1])));
+    console.log(formatSizeDiff(diff, cliArgs.format, cliArgs.top));
+    return;
+  }
+  if (inputs.length !== 1) fail("Expected a single module, use --diff to compare two.");
+  let profile = profileSize(readWasmFile(inputs[0]));
+  console.log(formatSizeProfile(profile, cliArgs.format, cliArgs.top));
+}
 function assemble() {
   let res = spawnSync(ASSEMBLER, [cliArgs.input, '-o', cliArgs.output], { stdio: [0, 1, 2] });
   if (res.status !== 0)
@@ -243,108 +510,829 @@ function assemble() {
 function quoteStringArray(a: string []): string {
   return `[${a.map(x => `'${x}'`).join(", ")}]`;
 }
-function mergeConfigs(base: any, delta: any) {
+/**
+ * Merges delta into base: objects are merged recursively and other values
+ * replace the ones in base. Arrays of flags, e.g. `flags` or
+ * `EXPORTED_FUNCTIONS`, are concatenated, while other arrays such as `files`
+ * replace the base ones as well.
+ */
+function mergeConfigs(base: any, delta: any, concatArrays: boolean = false) {
   for (var name in delta) {
     var value = delta[name];
-    if (typeof value === 'object' && value !== null) {
+    if (Array.isArray(value)) {
+      base[name] = concatArrays && Array.isArray(base[name]) ?
+        base[name].concat(value) : value.slice(0);
+    } else if (typeof value === 'object' && value !== null) {
       if (!base[name])
         base[name] = {};
-      mergeConfigs(base[name], value);
+      mergeConfigs(base[name], value, concatArrays || FLAG_SECTIONS.indexOf(name) >= 0);
     } else {
       base[name] = value;
     }
   }
 }
-function ezCompile() {
-  let config: Config = {
+function applyProfile(config: Config, name: string) {
+  let profile = (config.profiles && config.profiles[name]) ||
+                builtinProfiles[name];
+  if (!profile) fail(`Unknown build profile: ${name}`);
+  if (profile.compilerOptions)
+    mergeConfigs(config.compilerOptions, profile.compilerOptions, true);
+  if (profile.options)
+    mergeConfigs(config.options, profile.options, true);
+}
+function getCompilerArgs(config: Config, source: string): any [] {
+  let compilerOptions = config.compilerOptions;
+  let args = [];
+  args.push("-O" + compilerOptions.optimizationLevel);
+  args.push(["-s", `DISABLE_EXCEPTION_CATCHING=${compilerOptions.exceptions ? 0 : 1}`]);
+  let defines = compilerOptions.defines || {};
+  Object.keys(defines).forEach(name => {
+    let value = defines[name];
+    if (value === false) return;
+    args.push(value === true ? `-D${name}` : `-D${name}=${value}`);
+  });
+  (compilerOptions.includeDirs || []).forEach(dir => {
+    args.push("-I" + dir);
+  });
+  if (config.dependencies) {
+    config.dependencies.forEach(dependency => {
+      var jsWrapperPath = require.resolve(dependency);
+      args.push("-I" + path.dirname(jsWrapperPath));
+    });
+  }
+  if (compilerOptions.std) {
+    args.push(`--std=${compilerOptions.std}`);
+  } else if (CXX_EXTENSIONS.test(source)) {
+    args.push("--std=c++11");
+  }
+  if (compilerOptions.debugInfo) args.push("-g3");
+  if (compilerOptions.flags) args.push(compilerOptions.flags);
+  return flatten(args);
+}
+function getLinkerArgs(config: Config): any [] {
+  let compilerOptions = config.compilerOptions;
+  let args = [];
+  args.push("-O" + compilerOptions.optimizationLevel);
+  args.push(["-s", `DISABLE_EXCEPTION_CATCHING=${compilerOptions.exceptions ? 0 : 1}`]);
+  // -g4 makes emcc emit a source map of the wasm code, see moveSourceMap.
+  if (compilerOptions.debugInfo) args.push("-g4");
+  if (compilerOptions.flags) args.push(compilerOptions.flags);
+  return args;
+}
+function getToolchainVersion(): string {
+  if (toolchainVersion === null) {
+    let res = spawnSync(EMCC, ["--em-config", EM_CONFIG, "--version"]);
+    toolchainVersion = res.status === 0 ? res.stdout.toString() : "";
+  }
+  return toolchainVersion;
+}
+/**
+ * Runs emcc, passing its stderr through, and fails with the exit status and
+ * the error output when it does not succeed.
+ */
+function runCompiler(args: string [], what: string) {
+  if (WASDK_DEBUG) console.log(EMCC + " " + args.join(" "));
+  let res = spawnSync(EMCC, args, { stdio: [0, 1, 'pipe'] });
+  let stderr = res.stderr ? res.stderr.toString() : "";
+  if (res.error)
+    fail(`${what} failed: cannot run ${EMCC}: ${res.error.message}`);
+  if (res.status !== 0) {
+    let reason = res.status === null ?
+      `killed by ${res.signal}` : `exit status ${res.status}`;
+    fail(`${what} failed (${reason}):\n${stderr}`);
+  }
+  if (stderr) process.stderr.write(stderr);
+}
+// Returns the command line that ran.
+function compileSource(source: string, args: string [], object: string, depFile: string): string [] {
+  let compileArgs = flatten(["--em-config", EM_CONFIG, args,
+                             "-MD", "-MF", depFile, "-c", source, "-o", object]);
+  runCompiler(compileArgs, `Compiling ${path.relative(".", source)}`);
+  return [EMCC].concat(compileArgs);
+}
+function compileSources(config: Config, useCache: boolean, inputs: string [],
+                        commands: string [][]): string [] {
+  let compiled = 0;
+  // Without the cache, objects go to the temp directory and are deleted once
+  // linked. They're prefixed by their index so that sources with the same name
+  // in different directories don't collide.
+  let buildDir = wasdkPath(path.join(TMP_DIR, "build"));
+  if (!useCache) ensureDirectoryCreatedSync(buildDir);
+  let objects = config.files.map((file, index) => {
+    let source = path.resolve(file);
+    inputs.push(source);
+    if (!SOURCE_EXTENSIONS.test(source)) return source;
+    let args = getCompilerArgs(config, source);
+    if (!useCache) {
+      let object = path.join(buildDir, index + "." + path.basename(source) + ".o");
+      commands.push(compileSource(source, args, object, object + ".d"));
+      parseDependencyFile(fs.readFileSync(object + ".d", 'utf8'))
+        .slice(1).forEach(header => inputs.push(path.resolve(header)));
+      fs.unlinkSync(object + ".d");
+      compiled++;
+      return object;
+    }
+    let result = compileCached(source, args, getToolchainVersion(),
+      (object, depFile) => compileSource(source, args, object, depFile));
+    commands.push(result.command);
+    if (!result.cached) compiled++;
+    else if (WASDK_DEBUG) console.log("Cached: " + source);
+    result.headers.forEach(header => inputs.push(header));
+    return result.object;
+  });
+  console.log(`Compiled ${compiled} of ${objects.length} file(s).`);
+  return objects;
+}
+function getSettingsArgs(config: Config): any [] {
+  let options = config.options;
+  return Object.keys(options).map(name => {
+    let value = options[name];
+    if (Array.isArray(value)) value = quoteStringArray(value);
+    return ["-s", `${name}=${value}`];
+  });
+}
+function createDefaultConfig(): Config {
+  return {
     files: [],
     dependencies: [],
+    compilerOptions: {
+      optimizationLevel: "3",
+      exceptions: false,
+      debugInfo: false
+    },
     options: {
       EXPORTED_RUNTIME_METHODS: [],
       EXPORTED_FUNCTIONS: [],
       ALLOW_MEMORY_GROWTH: 0,
       SIDE_MODULE: 1,
       RELOCATABLE: 1,
-      VERBOSE: 0
+      VERBOSE: 0,
+      NO_FILESYSTEM: 1,
+      NO_EXIT_RUNTIME: 1,
+      BINARYEN_IMPRECISE: 1
     }
   };
-  if (path.extname(cliArgs.input) === ".json") {
-    mergeConfigs(config, JSON.parse(fs.readFileSync(cliArgs.input, 'utf8')));
-    resolveConfig(config, cliArgs.input);
+}
+function resolveExtendsPath(extendsPath: string, configPath: string): string {
+  let configDir = path.dirname(path.resolve(configPath));
+  let candidates = [];
+  if (path.isAbsolute(extendsPath) || /^\.\.?([\/\\]|$)/.test(extendsPath)) {
+    candidates.push(path.resolve(configDir, extendsPath));
   } else {
-    mergeConfigs(config, {files: [cliArgs.input]});
-    resolveConfig(config);
+    // A package name, optionally followed by a path inside the package.
+    for (let dir = configDir; ; dir = path.dirname(dir)) {
+      candidates.push(path.join(dir, "node_modules", extendsPath));
+      if (path.dirname(dir) === dir) break;
+    }
   }
+  for (let candidate of candidates) {
+    let found = [candidate, candidate + ".json", path.join(candidate, "wasdk.json")]
+      .filter(file => fs.existsSync(file) && fs.statSync(file).isFile());
+    if (found.length > 0) return found[0];
+  }
+  fail(`Cannot find config "${extendsPath}" extended by ${configPath}`);
+}
+/**
+ * Makes the relative paths of a config file absolute, so they stay relative
+ * to the file they were written in when the config is extended.
+ */
+function absolutizeConfigPaths(json: any, configDir: string) {
+  function resolvePath(p: string) {
+    return path.isAbsolute(p) ? p : path.resolve(configDir, p);
+  }
+  function absolutizeModule(module: any) {
+    if (module.files) module.files = module.files.map(resolvePath);
+    ["interface", "idlOutput", "output"].forEach(name => {
+      if (module[name]) module[name] = resolvePath(module[name]);
+    });
+    let compilerOptions = [module.compilerOptions];
+    Object.keys(module.profiles || {}).forEach(name => {
+      compilerOptions.push(module.profiles[name].compilerOptions);
+    });
+    compilerOptions.forEach(options => {
+      if (options && options.includeDirs)
+        options.includeDirs = options.includeDirs.map(resolvePath);
+    });
+  }
+  absolutizeModule(json);
+  (json.targets || []).forEach(absolutizeModule);
+}
+function readConfigFile(configPath: string, chain: string [] = []): any {
+  configPath = path.resolve(configPath);
+  if (chain.indexOf(configPath) >= 0)
+    fail(`Circular config extends: ${chain.concat(configPath).join(" -> ")}`);
+  let json;
+  try {
+    json = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  } catch (e) {
+    fail(`Cannot read config ${configPath}: ${e.message}`);
+  }
+  let warnings = [];
+  let errors = validateConfig(json, warnings);
+  if (errors.length > 0) fail(formatConfigErrors(configPath, errors));
+  warnings.forEach(warning => console.error(`Warning: ${configPath}: ${warning}`.yellow));
+  loadedConfigFiles.push(configPath);
+  absolutizeConfigPaths(json, path.dirname(configPath));
+  if (!json.extends) return json;
 
-  let inputFiles = config.files.map(file => path.resolve(file));
-  let isCpp = config.files.some(file => /\.cpp$/i.test(file));
-  let res, args, glueFile;
-  args = ["--em-config", EM_CONFIG, "-s", "BINARYEN=1", "-O3"];
-  args.push(["-s", "NO_FILESYSTEM=1"]);
-  args.push(["-s", "NO_EXIT_RUNTIME=1"]);
-  args.push(["-s", "DISABLE_EXCEPTION_CATCHING=1"]);
-  args.push(["-s", "BINARYEN_IMPRECISE=1"]);
-
-  args.push(["-s", `VERBOSE=${config.options.VERBOSE}`]);
-  args.push(["-s", `ALLOW_MEMORY_GROWTH=${config.options.ALLOW_MEMORY_GROWTH}`]);
-  args.push(["-s", `SIDE_MODULE=${config.options.SIDE_MODULE}`]);
-  args.push(["-s", `RELOCATABLE=${config.options.RELOCATABLE}`]);
-  args.push(["-s", `EXPORTED_RUNTIME_METHODS=${quoteStringArray(config.options.EXPORTED_RUNTIME_METHODS)}`]);
-  args.push(["-s", `EXPORTED_FUNCTIONS=${quoteStringArray(config.options.EXPORTED_FUNCTIONS)}`]);
+  let basePath = resolveExtendsPath(json.extends, configPath);
+  let merged = readConfigFile(basePath, chain.concat(configPath));
+  delete json.extends;
+  mergeConfigs(merged, json);
+  return merged;
+}
+function loadEzConfigs(input: string = cliArgs.input): TargetConfig [] {
+  loadedConfigFiles = [];
+  if (path.extname(input) !== ".json") {
+    let config = <TargetConfig>createDefaultConfig();
+    mergeConfigs(config, {files: [input]});
+    if (cliArgs.profile) applyProfile(config, cliArgs.profile);
+    resolveConfig(config);
+    if (cliArgs.debuginfo) config.compilerOptions.debugInfo = true;
+    if (cliArgs.output) config.output = path.resolve(cliArgs.output);
+    return [config];
+  }
+  let json = readConfigFile(input);
+  let errors = validateRequiredKeys(json);
+  if (errors.length > 0) fail(formatConfigErrors(input, errors));
+  if (json.targets) {
+    if (cliArgs.output) fail("--output cannot be used with multi-target configs.");
+    return loadTargets(json, input);
+  }
+  let config = <TargetConfig>createDefaultConfig();
+  mergeConfigs(config, json);
+  if (cliArgs.profile) applyProfile(config, cliArgs.profile);
+  resolveConfig(config, input);
+  if (cliArgs.debuginfo) config.compilerOptions.debugInfo = true;
+  if (cliArgs.output) config.output = path.resolve(cliArgs.output);
+  return [config];
+}
+function printConfigs(targets: TargetConfig []) {
+  let isMultiTarget = targets.some(target => !!target.name);
+  console.log(JSON.stringify(isMultiTarget ? { targets: targets } : targets[0],
+                             null, 2));
+}
+function ezCompile() {
+  if (cliArgs.printConfig) {
+    printConfigs(loadEzConfigs());
+    return;
+  }
+  if (cliArgs.watch) {
+    watchEz();
+    return;
+  }
+  buildTargets(loadEzConfigs());
+}
 
-  if (config.dependencies) {
-    config.dependencies.forEach(dependency => {
-      var jsWrapperPath = require.resolve(dependency);
-      args.push("-I" + path.dirname(jsWrapperPath));
+function sortTargets(targets: TargetConfig []): TargetConfig [] {
+  let byName = Object.create(null);
+  targets.forEach(target => {
+    if (byName[target.name]) fail(`Duplicate target name: ${target.name}`);
+    byName[target.name] = target;
+  });
+  let sorted = [];
+  let state = Object.create(null);
+  function visit(target: TargetConfig, chain: string []) {
+    if (state[target.name] === "done") return;
+    if (state[target.name] === "visiting")
+      fail(`Circular target dependency: ${chain.concat(target.name).join(" -> ")}`);
+    state[target.name] = "visiting";
+    (target.dependsOn || []).forEach(name => {
+      if (!byName[name]) fail(`Target ${target.name} depends on unknown target ${name}`);
+      visit(byName[name], chain.concat(target.name));
     });
+    state[target.name] = "done";
+    sorted.push(target);
   }
-
-  if (isCpp) args.push("--std=c++11");
-  if (cliArgs.debuginfo) args.push("-g 3");
+  targets.forEach(target => visit(target, []));
+  return sorted;
+}
+function checkTargetImports(target: TargetConfig, wasm: Uint8Array,
+                            providers: { [name: string]: ModuleInterface }) {
+  let provided = Object.create(null);
+  RUNTIME_IMPORTS.concat(target.externals || []).forEach(name => {
+    provided[name] = true;
+  });
+  (target.dependsOn || []).forEach(name => {
+    providers[name].exports.forEach(e => {
+      if (e.kind === ExternalKind.Function) provided[e.field] = true;
+    });
+  });
+  let missing = readModuleInterface(wasm).imports.filter(i =>
+    i.kind === ExternalKind.Function && !provided[i.field]);
+  if (missing.length > 0) {
+    fail(`Target ${target.name} imports ${missing.map(i => i.field).join(", ")}` +
+         ` which no dependency provides.`);
+  }
+}
+function loadTargets(json: any, configPath: string): TargetConfig [] {
+  let base = {};
+  Object.keys(json).forEach(name => {
+    if (name !== "targets") base[name] = json[name];
+  });
+  let targets: TargetConfig [] = json.targets.map((delta, i) => {
+    let target = <TargetConfig>createDefaultConfig();
+    mergeConfigs(target, base);
+    mergeConfigs(target, delta);
+    if (!target.name) {
+      target.name = target.output ?
+        path.basename(target.output, path.extname(target.output)) : `target${i}`;
+    }
+    if (cliArgs.profile) applyProfile(target, cliArgs.profile);
+    resolveConfig(target, configPath);
+    if (cliArgs.debuginfo) target.compilerOptions.debugInfo = true;
+    return target;
+  });
+  return sortTargets(targets);
+}
+/**
+ * Builds the targets in the given order and returns all files the build
+ * read, i.e. the config, sources, headers and interfaces.
+ */
+function buildTargets(targets: TargetConfig []): string [] {
+  let inputs = loadedConfigFiles.slice(0);
+  let providers: { [name: string]: ModuleInterface } = Object.create(null);
+  targets.forEach(target => {
+    if (target.name) section(`Building ${target.name}`);
+    let result = compileConfig(target);
+    if (target.name && target.options.SIDE_MODULE)
+      checkTargetImports(target, result.wasm, providers);
+    if (target.name) providers[target.name] = readModuleInterface(result.wasm);
+    if (target.interface) inputs.push(target.interface);
+    inputs = inputs.concat(result.inputs);
+  });
+  return inputs;
+}
+function elapsedSince(start: number): string {
+  return ((Date.now() - start) / 1000).toFixed(2) + "s";
+}
+function idlOutputDir(config: Config): string {
+  if (config.idlOutput) return config.idlOutput;
+  let idlPath = config.interface;
+  return path.join(path.dirname(idlPath), path.basename(idlPath, path.extname(idlPath)));
+}
+function watchEz() {
+  let watched: string [] = [];
+  let changed: string [] = [];
+  let timer = null;
+  function onChange(file: string) {
+    if (changed.indexOf(file) < 0) changed.push(file);
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      let files = changed;
+      changed = [];
+      console.log(`Changed: ${files.map(file => path.relative(".", file)).join(", ")}`);
+      rebuild(files);
+    }, WATCH_DELAY);
+  }
+  function updateWatched(files: string []) {
+    let unique = files.filter((file, i) => files.indexOf(file) === i);
+    watched.filter(file => unique.indexOf(file) < 0)
+      .forEach(file => fs.unwatchFile(file));
+    unique.filter(file => watched.indexOf(file) < 0).forEach(file => {
+      fs.watchFile(file, { interval: WATCH_INTERVAL }, (curr, prev) => {
+        if (curr.mtime.getTime() !== prev.mtime.getTime()) onChange(file);
+      });
+    });
+    watched = unique;
+  }
+  function rebuild(files: string []) {
+    let start = Date.now();
+    let inputs = [path.resolve(cliArgs.input)];
+    try {
+      let targets = loadEzConfigs();
+      targets.forEach(target => {
+        inputs = inputs.concat(target.files);
+        if (!target.interface) return;
+        inputs.push(target.interface);
+        if (files.indexOf(target.interface) >= 0) {
+          generateIdl(target.interface, idlOutputDir(target));
+          console.log(`Regenerated ${path.relative(".", idlOutputDir(target))}`);
+        }
+      });
+      inputs = inputs.concat(buildTargets(targets));
+      console.log(`Build succeeded in ${elapsedSince(start)}.`.green);
+    } catch (e) {
+      // Keep watching the headers found by earlier builds.
+      inputs = inputs.concat(watched);
+      console.log(`Build failed in ${elapsedSince(start)}: ${e.message}`.red);
+    }
+    updateWatched(inputs);
+    console.log(`Watching ${watched.length} file(s) for changes...`);
+  }
+  rebuild([]);
+}
+function sha256(data: (string | Buffer)): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+function getToolchainInfo(): any {
+  let thirdpartyConfig = readThirdpartyConfig();
+  let platformConfig = thirdpartyConfig[process.platform] || {};
+  let packageJson = JSON.parse(fs.readFileSync(pathFromRoot("package.json")).toString());
+  // Empty when emcc can't report its version.
+  let emscriptenVersion = getToolchainVersion() || "";
+  return {
+    wasdk: packageJson.version,
+    emscripten: emscriptenVersion.split("\n")[0] || null,
+    urls: {
+      emscripten: thirdpartyConfig.all.emscripten,
+      emscriptenpatch: thirdpartyConfig.all.emscriptenpatch,
+      llvm: platformConfig.llvm,
+      binaryen: platformConfig.binaryen,
+      spidermonkey: platformConfig.spidermonkey
+    }
+  };
+}
+interface ManifestBuildInfo {
+  files: string [];
+  compileCommands: string [][];
+  linkCommand: string [];
+  wasm: Uint8Array;
+}
+/**
+ * Contents of <output>.manifest.json.
+ */
+interface BuildManifest {
+  files: { path: string, size: number, sha256: string } [];
+  // The argv of every emcc run, the program followed by its arguments, as
+  // passed to it. A source compiled by an earlier build and taken from the
+  // build cache is listed with the command that compiled it.
+  compileCommands: string [][];
+  linkCommand: string [];
+  // The wasdk version, the first line of `emcc --version` and the download
+  // URLs of thirdparty.json. Neither pins the toolchain: thirdparty.json only
+  // holds URLs, and the emcc version is whatever the installed one reports.
+  toolchain: any;
+  imports: { module: string, field: string, kind: string } [];
+  exports: { field: string, kind: string, index: number } [];
+  // The IDL file the module was built against, if any.
+  interface: { path: string, sha256: string, source: string };
+}
+/**
+ * Writes the metadata the release tooling needs about a build: the produced
+ * files, how they were built and the interface of the module.
+ */
+function writeBuildManifest(config: Config, manifestPath: string, info: ManifestBuildInfo) {
+  let moduleInterface = readModuleInterface(info.wasm);
+  let manifest: BuildManifest = {
+    files: info.files.map(file => {
+      let content = fs.readFileSync(file);
+      return {
+        path: path.basename(file),
+        size: content.length,
+        sha256: sha256(content)
+      };
+    }),
+    compileCommands: info.compileCommands,
+    linkCommand: info.linkCommand,
+    toolchain: getToolchainInfo(),
+    imports: moduleInterface.imports.map(i => ({
+      module: i.module,
+      field: i.field,
+      kind: externalKindName(i.kind)
+    })),
+    exports: moduleInterface.exports.map(e => ({
+      field: e.field,
+      kind: externalKindName(e.kind),
+      index: e.index
+    })),
+    interface: null
+  };
+  if (config.interface) {
+    let idl = fs.readFileSync(config.interface);
+    manifest.interface = {
+      path: path.relative(path.dirname(manifestPath), config.interface),
+      sha256: sha256(idl),
+      source: idl.toString()
+    };
+  }
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+}
+/**
+ * Writes the .wasm file and an ES module loader for it, with declarations
+ * of its exports. Returns the paths of the written files.
+ */
+function writeLoader(config: Config, loaderFile: string, tmpWasmFile: string,
+                     wasm: Uint8Array): string [] {
+  let baseName = path.join(path.dirname(loaderFile),
+                           path.basename(loaderFile, path.extname(loaderFile)));
+  let wasmFile = baseName + '.wasm';
+  fs.renameSync(tmpWasmFile, wasmFile);
+  let wrapperCode = null, bindingsDeclarations = null;
+  if (config.interface) {
+    let prefix = path.basename(config.interface, path.extname(config.interface));
+    let idlContent = fs.readFileSync(config.interface).toString();
+    let gen = new WebIDLWasmGen(prefix[0].toUpperCase() + prefix.slice(1), prefix);
+    gen.parse(idlContent);
+    wrapperCode = gen.getJSCode();
+    bindingsDeclarations = generateIdlTypes(idlContent);
+  }
+  let loader = generateLoader({
+    wasmFileName: path.basename(wasmFile),
+    moduleInterface: readModuleInterface(wasm),
+    wrapperCode: wrapperCode,
+    bindingsDeclarations: bindingsDeclarations,
+    idlFileName: config.interface && path.basename(config.interface)
+  });
+  let declarationsFile = baseName + '.d.mts';
+  fs.writeFileSync(loaderFile, loader.js);
+  fs.writeFileSync(declarationsFile, loader.declarations);
+  return [loaderFile, wasmFile, declarationsFile];
+}
+/**
+ * Moves the source map emcc produced next to the final wasm file, as
+ * <wasm>.map, where disassemble and dump look for it.
+ */
+function moveSourceMap(sourceMapFile: string, wasmFile: string): string [] {
+  if (!fs.existsSync(sourceMapFile)) return [];
+  fs.renameSync(sourceMapFile, wasmFile + '.map');
+  return [wasmFile + '.map'];
+}
+interface BuildResult {
+  wasm: Uint8Array;
+  // The produced .wasm file, or .wast file for .wast outputs.
+  wasmFile: string;
+  inputs: string [];
+}
+function compileConfig(config: Config): BuildResult {
+  let useCache = !cliArgs.noCache;
+  let inputs = [];
+  let compileCommands: string [][] = [];
+  let inputFiles = compileSources(config, useCache, inputs, compileCommands);
+  let args, glueFile;
+  args = ["--em-config", EM_CONFIG, "-s", "BINARYEN=1"];
+  args.push(getLinkerArgs(config));
+  args.push(getSettingsArgs(config));
   args.push(inputFiles);
-  let outputFile = cliArgs.output ? path.resolve(cliArgs.output) : path.resolve(config.output || "a.wasm");
+  let outputFile = path.resolve(config.output || "a.wasm");
   let extension = path.extname(outputFile) || '.wasm';
   let removeUnneedOutput = extension.toLowerCase() !== '.js';
   let baseOutputName = path.join(path.dirname(outputFile),
     (removeUnneedOutput ? "~tmp." : "") + path.basename(outputFile, extension));
   args.push(["-o", baseOutputName + ".js"]);
   args = flatten(args);
-  if (WASDK_DEBUG) console.log(EMCC + " " + args.join(" "));
-  res = spawnSync(EMCC, args, { stdio: [0, 1, 2] });
-  if (res.status !== 0) fail("Compilation error: " + res.error.toString());
+  try {
+    runCompiler(args, `Linking ${path.relative(".", outputFile)}`);
+  } finally {
+    if (!useCache) {
+      inputFiles.filter((file, i) => file !== path.resolve(config.files[i]))
+        .forEach(object => fs.unlinkSync(object));
+    }
+  }
   let postfixes = [".wasm"];
   if (!config.options.SIDE_MODULE)
     postfixes.push(".asm.js", ".js");
   let outputFiles = postfixes.map(postfix => baseOutputName + postfix);
-  if (!outputFiles.every(file => fs.existsSync(file))) fail("Compilation error.");
+  if (extension.toLowerCase() === '.mjs' && !config.options.SIDE_MODULE)
+    fail("ES module loaders can only be generated for SIDE_MODULE=1 builds.");
+  let missing = outputFiles.filter(file => !fs.existsSync(file));
+  if (missing.length > 0)
+    fail("Compilation error: emcc did not produce " + missing.join(", "));
+  let wasm = new Uint8Array(fs.readFileSync(baseOutputName + '.wasm'));
+  let producedFiles = removeUnneedOutput ? [outputFile] : outputFiles;
+  let wasmFile = removeUnneedOutput ? outputFile : baseOutputName + '.wasm';
+  let sourceMapFile = baseOutputName + '.wasm.map';
   if (removeUnneedOutput) {
     switch (extension.toLowerCase()) {
       case '.wasm':
         fs.renameSync(baseOutputName + '.wasm', outputFile);
+        producedFiles = producedFiles.concat(moveSourceMap(sourceMapFile, outputFile));
         break;
       case '.wast':
         fs.writeFileSync(outputFile, dumpWasm(baseOutputName + '.wasm'));
+        if (fs.existsSync(sourceMapFile)) fs.unlinkSync(sourceMapFile);
+        break;
+      case '.mjs':
+        producedFiles = writeLoader(config, outputFile, baseOutputName + '.wasm', wasm);
+        wasmFile = producedFiles[1];
+        producedFiles = producedFiles.concat(moveSourceMap(sourceMapFile, producedFiles[1]));
         break;
     }
     postfixes.forEach(postfix => {
       if (fs.existsSync(baseOutputName + postfix))
         fs.unlinkSync(baseOutputName + postfix);
     });
+  } else if (fs.existsSync(sourceMapFile)) {
+    producedFiles = producedFiles.concat([sourceMapFile]);
   }
+  writeBuildManifest(config, outputFile + ".manifest.json", {
+    files: producedFiles,
+    compileCommands: compileCommands,
+    linkCommand: [EMCC].concat(args),
+    wasm: wasm
+  });
+  if (config.interface) {
+    let issues = checkIdlConformance(config.interface, wasm, config.options.EXPORTED_FUNCTIONS);
+    formatConformanceIssues(issues).forEach(line => console.log(line.yellow));
+  }
+  return {
+    wasm: wasm,
+    wasmFile: wasmFile,
+    inputs: inputs
+  };
 }
 
-function getWasmSMCommandArgs(input) {
+function getSMScriptArgs(script: string, input, options: string [] = []) {
   var smAsNode = path.resolve(__dirname, '..', 'sm_as_node.js');
-  return flatten(['-f', smAsNode, path.join(__dirname, "wasm-sm.js"), input]);
+  return flatten(['-f', smAsNode, path.join(__dirname, script), input, options]);
+}
+
+function getWasmSMCommandArgs(input, options: string [] = []) {
+  return getSMScriptArgs("wasm-sm.js", input, options);
 }
 
 function disassemble() {
-  let input = path.resolve(cliArgs.input);
-  let args = getWasmSMCommandArgs(input);
+  let inputs: string [] = cliArgs.input.map(file => path.resolve(file));
+  let input = inputs[inputs.length - 1];
+  let options = ["--format", cliArgs.format];
+  if (cliArgs.diff) {
+    if (inputs.length !== 2) fail("--diff expects two modules: old and new.");
+    if (cliArgs.cfg || cliArgs.format === "html") fail("--diff doesn't support --cfg and --format html.");
+    options.push("--diff", inputs[0]);
+  } else if (inputs.length !== 1) {
+    fail("Expected a single input file, use --diff to compare two modules.");
+  }
+  let sourceMap = findSourceMap(input, cliArgs.source_map);
+  if (sourceMap) {
+    let lines = functionSourceLines(readWasmFile(input), readSourceMap(sourceMap));
+    let formatted = Object.create(null);
+    Object.keys(lines).forEach(index => formatted[index] = lines[index].map(formatSourceLine));
+    let sourceLinesFile = wasdkPath(path.join(TMP_DIR, "source-lines.json"));
+    ensureDirectoryCreatedSync(path.dirname(sourceLinesFile));
+    fs.writeFileSync(sourceLinesFile, JSON.stringify(formatted));
+    options.push("--source-lines", sourceLinesFile);
+  }
+  if (cliArgs.function) options.push("--function", cliArgs.function);
+  if (cliArgs.cfg) options.push("--cfg", cliArgs.cfg);
+  let args = getWasmSMCommandArgs(input, options);
   let res = spawnSync(JS, args, { stdio: [0, 1, 2] });
   if (res.status !== 0) fail("Disassembly error.");
 }
 
+function analyze() {
+  console.log(formatAnalysis(readCodeInfo(readWasmFile(cliArgs.input)), cliArgs.format));
+}
+
+/**
+ * Converts the command line arguments of an export to numbers of the types
+ * of its parameters.
+ */
+function parseInvokeArguments(name: string, signature: FunctionSignature, args: string []): number [] {
+  if (args.length !== signature.params.length)
+    fail(`${name} expects ${signature.params.length} argument(s): ${signatureToString(signature)}`);
+  if (signature.params.concat(signature.returns).indexOf("i64") >= 0)
+    fail(`${name} can't be called from JavaScript, it uses i64: ${signatureToString(signature)}`);
+  return signature.params.map((type, i) => {
+    let arg = args[i];
+    if (type === "i32") {
+      if (!/^[-+]?(0x[0-9a-f]+|[0-9]+)$/i.test(arg)) fail(`Argument ${i}: expected an i32, found "${arg}"`);
+      let value = arg[0] === "-" ? -parseInt(arg.slice(1)) : parseInt(arg.replace(/^\+/, ""));
+      if (value < -0x80000000 || value > 0xffffffff) fail(`Argument ${i}: ${arg} is out of the i32 range`);
+      return value | 0;
+    }
+    let value = Number(arg);
+    if (isNaN(value) && arg !== "NaN") fail(`Argument ${i}: expected an ${type}, found "${arg}"`);
+    return value;
+  });
+}
+
+function run() {
+  let input = path.resolve(cliArgs.input);
+  let invoke = null, args = [];
+  if (!cliArgs.check_imports) {
+    if (!cliArgs.invoke) fail("Either --invoke or --check-imports is required.");
+    let name = cliArgs.invoke[0];
+    let moduleInterface = readModuleInterface(readWasmFile(input));
+    let exports = moduleInterface.exports.filter(e => e.kind === ExternalKind.Function);
+    let entry = exports.filter(e => e.field === name)[0] || exports.filter(e => e.field === "_" + name)[0];
+    if (!entry) {
+      fail(`Module has no exported function "${name}", exports: ` +
+           exports.map(e => e.field).join(", "));
+    }
+    invoke = entry.field;
+    args = parseInvokeArguments(entry.field, entry.signature, cliArgs.invoke.slice(1));
+  }
+  if (cliArgs.instances < 1) fail("--instances must be at least 1.");
+  let maximumMemory = cliArgs.maximum_memory * 1024 * 1024;
+  if (maximumMemory < 16 * 1024 * 1024 || maximumMemory >= 4096 * 1024 * 1024)
+    fail("--maximum-memory must be at least 16 MB and less than 4096 MB.");
+  if (cliArgs.engine === "node") {
+    let ok = runModuleInNode({
+      input: input,
+      host: cliArgs.host && path.resolve(cliArgs.host),
+      instances: cliArgs.instances,
+      maximumMemory: maximumMemory,
+      precedence: cliArgs.symbol_precedence,
+      checkImports: cliArgs.check_imports,
+      trace: cliArgs.trace,
+      trackAllocations: cliArgs.track_allocations,
+      invoke: invoke,
+      args: args
+    });
+    if (!ok) fail("Run error.");
+    return;
+  }
+  let options = ["--instances", String(cliArgs.instances),
+                 "--maximum-memory", String(maximumMemory),
+                 "--symbol-precedence", cliArgs.symbol_precedence];
+  if (invoke) options.push("--invoke", invoke, "--args", JSON.stringify(args));
+  if (cliArgs.check_imports) options.push("--check-imports");
+  if (cliArgs.trace) options.push("--trace");
+  if (cliArgs.track_allocations) options.push("--track-allocations");
+  if (cliArgs.host) options.push("--host", path.resolve(cliArgs.host));
+  let res = spawnSync(JS, getSMScriptArgs("wasm-shell.js", input, options), { stdio: [0, 1, 2] });
+  if (res.status !== 0) fail("Run error.");
+}
+
+interface TestModule {
+  wasmFile: string;
+  host: string;
+  // Side modules the tested module depends on, in load order.
+  libraries: string [];
+}
+/**
+ * Builds a test config and returns its side modules. Within a multi-target
+ * config, a dependency that isn't a side module, such as malloc, is the host
+ * of the modules depending on it.
+ */
+function buildTestModules(input: string, host: string): TestModule [] {
+  if (path.extname(input) !== ".json") return [{ wasmFile: input, host: host, libraries: [] }];
+  let targets = loadEzConfigs(input);
+  let byName = Object.create(null);
+  let wasmFiles = Object.create(null);
+  targets.forEach(target => {
+    if (target.name) section(`Building ${target.name}`);
+    byName[target.name] = target;
+    wasmFiles[target.name] = compileConfig(target).wasmFile;
+  });
+  function dependencies(target: TargetConfig): TargetConfig [] {
+    let seen = Object.create(null);
+    (function visit(t: TargetConfig) {
+      (t.dependsOn || []).forEach(name => {
+        if (seen[name]) return;
+        seen[name] = true;
+        visit(byName[name]);
+      });
+    })(target);
+    return targets.filter(t => seen[t.name]);
+  }
+  return targets.filter(target => target.options.SIDE_MODULE).map(target => {
+    let deps = dependencies(target);
+    let hosts = deps.filter(t => !t.options.SIDE_MODULE);
+    return {
+      wasmFile: wasmFiles[target.name],
+      host: hosts.length > 0 ? wasmFiles[hosts[0].name] : host,
+      libraries: deps.filter(t => t.options.SIDE_MODULE).map(t => wasmFiles[t.name])
+    };
+  });
+}
+function runTestModule(module: TestModule): TestRun {
+  let options: TestOptions = {
+    input: module.wasmFile,
+    host: module.host,
+    libraries: module.libraries,
+    pattern: cliArgs.pattern,
+    maximumMemory: cliArgs.maximum_memory * 1024 * 1024,
+    precedence: "first"
+  };
+  if (cliArgs.engine === "node") return runTestsInNode(options);
+  let args = ["--tests", options.pattern, "--maximum-memory", String(options.maximumMemory)];
+  if (options.host) args.push("--host", options.host);
+  options.libraries.forEach(library => args.push("--library", library));
+  let res = spawnSync(JS, getSMScriptArgs("wasm-shell.js", options.input, args));
+  if (res.status !== 0) return { error: `Engine error:
+${res.stderr}`, tests: [] };
+  // Stubbed imports log to stdout too; the results are on the last line.
+  let stdout = res.stdout.toString();
+  let lines = stdout.trim().split("\n");
+  try {
+    return JSON.parse(lines[lines.length - 1]);
+  } catch (e) {
+    return { error: `Cannot read the test results: ${e.message}
+${stdout}`, tests: [] };
+  }
+}
+function testModules() {
+  let host = cliArgs.host && path.resolve(cliArgs.host);
+  let suites: TestSuite [] = [];
+  cliArgs.input.forEach(input => {
+    buildTestModules(path.resolve(input), host).forEach(module => {
+      let run = runTestModule(module);
+      let goldenFile = goldenPath(module.wasmFile);
+      if (cliArgs.update && !run.error) writeGoldenFile(goldenFile, run);
+      let suite = createTestSuite(path.relative(".", module.wasmFile), run, readGoldenFile(goldenFile));
+      if (suite.cases.length === 0) console.error(`${suite.name}: no exports match ${cliArgs.pattern}`.yellow);
+      suites.push(suite);
+    });
+  });
+  let report = cliArgs.format === "junit" ? formatJUnit(suites) : formatTAP(suites);
+  if (cliArgs.report) fs.writeFileSync(cliArgs.report, report);
+  else process.stdout.write(report);
+  let failures = countFailures(suites);
+  if (failures > 0) fail(`${failures} test(s) failed.`);
+}
+
 function test() {
   let input = path.resolve("test/universe.wast");
   let args = getWasmSMCommandArgs(input);
@@ -352,4 +1340,105 @@ function test() {
   if (res.status !== 0) fail("Disassembly error.");
   let out = res.stdout.toString();
   if (out.indexOf("0x2a") < 0) fail("Can't find 42.");
+
+  // The node engine needs a Node with WebAssembly.
+  let engines = ["sm", "node"];
+  if (typeof WebAssembly === "undefined") {
+    console.log("Skipping the node engine tests, this Node has no WebAssembly.");
+    engines = ["sm"];
+  }
+
+  // Compiling C++ through ez, twice: the second build takes the object from
+  // the cache.
+  let ezDir = wasdkPath(path.join(TMP_DIR, "ez-test"));
+  ensureDirectoryCreatedSync(ezDir);
+  let simpleOutput = path.join(ezDir, "simple.wasm");
+  for (let i = 0; i < 2; i++) {
+    res = spawnSync(process.execPath, [__filename, "ez", path.resolve("test/simple.cpp"), "-o", simpleOutput]);
+    if (res.status !== 0) fail("ez compilation failed:\n" + res.stdout + res.stderr);
+  }
+  if (!fs.existsSync(simpleOutput)) fail("ez did not produce " + simpleOutput);
+  if (res.stdout.toString().indexOf("Compiled 0 of 1 file(s).") < 0) fail("ez did not use the build cache.");
+  let simpleManifest = JSON.parse(fs.readFileSync(simpleOutput + ".manifest.json", 'utf8'));
+  if (!simpleManifest.toolchain.emscripten) fail("The build manifest lacks the emscripten version.");
+
+  // The built-in profiles, checked against the compile command the build
+  // manifest records.
+  [["debug", "-O0"], ["release", "-DNDEBUG"]].forEach(([profile, flag]) => {
+    let output = path.join(ezDir, `simple-${profile}.wasm`);
+    let res = spawnSync(process.execPath, [__filename, "ez", path.resolve("test/simple.cpp"), "-o", output, "--profile", profile]);
+    if (res.status !== 0) fail(`ez --profile ${profile} failed:\n` + res.stdout + res.stderr);
+    let manifest = JSON.parse(fs.readFileSync(output + ".manifest.json", 'utf8'));
+    if (manifest.compileCommands[0].indexOf(flag) < 0) fail(`The ${profile} profile did not pass ${flag}.`);
+  });
+
+  // Tests built from a config, run from a copy so that the outputs don't end
+  // up in test/.
+  let unitsDir = path.join(ezDir, "units");
+  ensureDirectoryCreatedSync(unitsDir);
+  ["units.json", "units.c", "units.golden.json"].forEach(file => {
+    fs.writeFileSync(path.join(unitsDir, file), fs.readFileSync(path.resolve("test", file)));
+  });
+  engines.forEach(engine => {
+    let res = spawnSync(process.execPath, [__filename, "test", path.join(unitsDir, "units.json"), "--engine", engine]);
+    if (res.status !== 0) fail(`Config test runner failed (${engine}):\n` + res.stdout + res.stderr);
+    if (res.stdout.toString().indexOf("units.wasm: _test_sum") < 0) fail(`_test_sum did not run (${engine}).`);
+  });
+
+  // Memory growth past the initial 16 MB, in each engine.
+  let growInput = path.resolve("test/grow.wast");
+  engines.forEach(engine => {
+    let res = spawnSync(process.execPath, [__filename, "run", growInput, "--invoke", "_test", "--engine", engine]);
+    if (res.status !== 0) fail(`Memory growth test failed (${engine}):\n` + res.stderr);
+    if (res.stdout.toString().indexOf("_test() = 1") < 0) fail(`Memory did not grow (${engine}).`);
+    // The same check through the test runner, against test/grow.golden.json.
+    res = spawnSync(process.execPath, [__filename, "test", growInput, "--engine", engine]);
+    if (res.status !== 0) fail(`Test runner failed (${engine}):\n` + res.stdout + res.stderr);
+  });
+
+  // Two instances linked against a table import with a maximum, which the
+  // shared table only satisfies when it has one.
+  let tableInput = path.resolve("test/table.wast");
+  engines.forEach(engine => {
+    let res = spawnSync(process.execPath, [__filename, "run", tableInput, "--invoke", "_test", "--instances", "2", "--engine", engine]);
+    if (res.status !== 0) fail(`Table linking test failed (${engine}):\n` + res.stderr);
+    if (res.stdout.toString().indexOf("[instance 1] _test() = 2") < 0) fail(`Wrong table entry called (${engine}).`);
+  });
+
+  // The ES module loader, whose test uses top-level await.
+  if (nodeVersionAtLeast(14, 8)) testLoader(growInput);
+  else console.log("Skipping the loader test, it needs Node 14.8 or later.");
+}
+function nodeVersionAtLeast(major: number, minor: number): boolean {
+  let version = process.versions.node.split(".").map(Number);
+  return version[0] > major || (version[0] === major && version[1] >= minor);
+}
+/**
+ * Tests the ES module loader: the wrapper gets the instance's exports and
+ * memory, and the memory grows up to its maximum.
+ */
+function testLoader(growInput: string) {
+  let loaderDir = wasdkPath(path.join(TMP_DIR, "loader-test"));
+  ensureDirectoryCreatedSync(loaderDir);
+  let growWasm = path.join(loaderDir, "grow.wasm");
+  let res = spawnSync(ASSEMBLER, [growInput, "-o", growWasm]);
+  if (res.status !== 0) fail("Wasm assembly error:\n" + res.stderr);
+  let loader = generateLoader({
+    wasmFileName: "grow.wasm",
+    moduleInterface: readModuleInterface(new Uint8Array(fs.readFileSync(growWasm))),
+    wrapperCode: "module.exports = (exports, memory) => ({ exports, memory });",
+    idlFileName: "grow.idl"
+  });
+  fs.writeFileSync(path.join(loaderDir, "grow.mjs"), loader.js);
+  let loaderTest = path.join(loaderDir, "test.mjs");
+  fs.writeFileSync(loaderTest, [
+    `import load from "./grow.mjs";`,
+    `const memory = new WebAssembly.Memory({ initial: 256, maximum: 512 });`,
+    `const { instance, exports, bindings } = await load({ memory });`,
+    `if (bindings.exports !== instance.exports || bindings.memory !== memory)`,
+    `  throw new Error("Wrong createBindings arguments.");`,
+    `if (exports.test() !== 1) throw new Error("Memory did not grow.");`
+  ].join("\n"));
+  res = spawnSync(process.execPath, [loaderTest]);
+  if (res.status !== 0) fail("Loader test failed:\n" + res.stderr);
 }
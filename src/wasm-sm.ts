@@ -15,84 +15,63 @@
  */
 /// <reference path="./globals.d.ts"/>
 
-import {
-  BinaryReader, BinaryReaderState, SectionCode, bytesToString, INameEntry,
-  IImportEntry, ISectionInformation, IFunctionInformation, ExternalKind,
-  NameType, IFunctionNameEntry
-} from 'wasmparser';
 import { Capstone, ARCH_X86, MODE_64, Instruction } from 'wasdk-capstone-x86';
+import { CodeInfo, readCodeInfo } from './code-info';
+import { diffLines } from './text-diff';
 
 declare var scriptArgs: any;
 
-function parseCodeMetricsAndNames(wasm: Uint8Array) {
-  let reader = new BinaryReader();
-  reader.setData(wasm.buffer, wasm.byteOffset, wasm.byteLength);
-
-  let names = [];
-  let sizes = [];
-  let imports = 0;
-  let funcIndex = 0;
-  var functionStartAt;
-  var sectionInfo;
-  var lastPosition = reader.position;
-parsing:
-  while (reader.read()) {
-    switch (reader.state) {
-      case BinaryReaderState.END_WASM:
-        break parsing;
-      case BinaryReaderState.ERROR:
-        throw reader.error;
-      case BinaryReaderState.BEGIN_SECTION:
-        sectionInfo = <ISectionInformation>reader.result;
-        if (sectionInfo.id != SectionCode.Code &&
-            !(sectionInfo.id == SectionCode.Custom && bytesToString(sectionInfo.name) == "name") &&
-            sectionInfo.id != SectionCode.Import) {
-           reader.skipSection();
-        }
+interface DisassemblerOptions {
+  input: string;
+  // The old module when diffing, input being the new one.
+  diff: string;
+  functionFilter: string;
+  cfg: string;
+  // JSON file with the source lines of the functions, by function index,
+  // written by wasdk from the module's source map.
+  sourceLines: string;
+  format: string;
+}
+
+function parseOptions(args: string[]): DisassemblerOptions {
+  let options: DisassemblerOptions = {
+    input: args[0],
+    diff: null,
+    functionFilter: null,
+    cfg: null,
+    sourceLines: null,
+    format: "text"
+  };
+  for (let i = 1; i < args.length; i++) {
+    switch (args[i]) {
+      case "--function":
+        options.functionFilter = args[++i];
         break;
-      case BinaryReaderState.IMPORT_SECTION_ENTRY:
-        if ((<IImportEntry>reader.result).kind != ExternalKind.Function)
-          break;
-        sizes[funcIndex++] = 0;
-        imports++;
+      case "--diff":
+        options.diff = args[++i];
         break;
-      case BinaryReaderState.NAME_SECTION_ENTRY:
-        if ((<INameEntry>reader.result).type !== NameType.Function) {
-          break;
-        }
-        let nameInfo = <IFunctionNameEntry>reader.result;
-        nameInfo.names.forEach(naming => {
-          names[naming.index - imports] = bytesToString(naming.name);
-        })
+      case "--cfg":
+        options.cfg = args[++i];
         break;
-      case BinaryReaderState.BEGIN_FUNCTION_BODY:
-        functionStartAt = lastPosition;
-        reader.skipFunctionBody();
+      case "--source-lines":
+        options.sourceLines = args[++i];
         break;
-      case BinaryReaderState.END_FUNCTION_BODY:
-        let size = lastPosition - functionStartAt;
-        sizes[funcIndex++] = size;
-        break;
-      case BinaryReaderState.END_SECTION:
+      case "--format":
+        options.format = args[++i];
         break;
     }
-    lastPosition = reader.position;
   }
-  return {
-    imports: imports,
-    sizes: sizes,
-    names: names
-  };
+  return options;
 }
 
-let wasm;
-if (scriptArgs[0].endsWith(".wast")) {
-  wasm = wasmTextToBinary(read(scriptArgs[0]));
-} else {
-  wasm = read(scriptArgs[0], "binary");
+let options = parseOptions(scriptArgs);
+
+function readWasm(file: string) {
+  if (/\.wast$/.test(file)) {
+    return wasmTextToBinary(read(file));
+  }
+  return read(file, "binary");
 }
-let m = new WebAssembly.Module(wasm);
-let c = wasmExtractCode(m);
 
 var cs = new Capstone(ARCH_X86, MODE_64);
 
@@ -105,16 +84,23 @@ function padRight(s: string, l: number, c: string) {
   return s;
 }
 
-var metrics = parseCodeMetricsAndNames(wasm);
+function functionName(names: string[], index: number): string {
+  return names[index] || `Func ${index}`;
+}
+
+// Size of a function body, 0 for imported functions.
+function wasmSize(code: CodeInfo, index: number): number {
+  let f = code.functions[index - code.importedFunctionCount];
+  return f ? f.size : 0;
+}
 
-function printFunctionMetrics() {
+function printFunctionMetrics(code: CodeInfo) {
   let totalCodeSize = 0;
   let pairs = [];
-  for (let i = 0; i < metrics.sizes.length; i++) {
-    let size = metrics.sizes[i];
+  for (let i = 0; i < code.importedFunctionCount + code.functions.length; i++) {
+    let size = wasmSize(code, i);
     totalCodeSize += size;
-    let name = metrics.names[i] || `Func ${i}:`;
-    pairs.push([name, size]);
+    pairs.push([functionName(code.names, i) + ":", size]);
   }
   console.log("Total Code Size: " + bytesToSize(totalCodeSize));
   pairs = pairs.sort((a, b) => a[1] < b[1] ? -1 : a[1] == b[1] ? 0 : 1);
@@ -122,7 +108,24 @@ function printFunctionMetrics() {
     console.log(`${padRight((pair[1] / totalCodeSize * 100).toFixed(2) + "%", 10, ' ')} ${padRight(pair[1].toString(), 10, ' ')} ${pair[0]}`);
   });
 }
-printFunctionMetrics();
+
+/**
+ * Matches a function against the --function filter: a function index, a
+ * /regular expression/ or an exact name from the name section.
+ */
+function createFunctionFilter(filter: string, names: string[]): (index: number) => boolean {
+  if (!filter) return (index) => true;
+  if (/^\d+$/.test(filter)) {
+    let filterIndex = parseInt(filter);
+    return (index) => index === filterIndex;
+  }
+  let regexMatch = /^\/(.*)\/([a-z]*)$/.exec(filter);
+  if (regexMatch) {
+    let re = new RegExp(regexMatch[1], regexMatch[2]);
+    return (index) => re.test(functionName(names, index));
+  }
+  return (index) => names[index] === filter;
+}
 
 var x86JumpInstructions = [
   "jmp", "ja", "jae", "jb", "jbe", "jc", "je", "jg", "jge", "jl", "jle", "jna", "jnae",
@@ -155,23 +158,57 @@ function toBytes(a) {
 
 let assemblyInstructionsByAddress = Object.create(null);
 
-c.segments.forEach(s => {
-  if (s.funcIndex === undefined) return;
-  let begin = s.funcBodyBegin;
-  let end = s.funcBodyEnd;
-  let index = s.funcIndex;
-  let code = c.code.subarray(begin, end);
-  if (metrics.names[index]) {
-    console.log(metrics.names[index] + ":");
-  } else {
-    console.log(`Func ${index}:`);
-  }
-  var instructions = cs.disasm(code, begin);
-  printInstructions(instructions);
-});
+interface DisassembledFunction {
+  index: number;
+  name: string;
+  wasmSize: number;
+  nativeSize: number;
+  instructions: Instruction[];
+}
 
-function printInstructions(instructions: Instruction[]) {
-  var pretty = true;
+interface DisassembledModule {
+  code: CodeInfo;
+  // Code ranges reported by wasmExtractCode, with offsets into its code.
+  segments: any[];
+  functions: DisassembledFunction[];
+}
+
+function disassembleModule(wasm, filter: string): DisassembledModule {
+  let code = readCodeInfo(wasm);
+  let c = wasmExtractCode(new WebAssembly.Module(wasm));
+  let functionFilter = createFunctionFilter(filter, code.names);
+  let functions: DisassembledFunction[] = [];
+  c.segments.forEach(s => {
+    if (s.funcIndex === undefined) return;
+    if (!functionFilter(s.funcIndex)) return;
+    let begin = s.funcBodyBegin;
+    let end = s.funcBodyEnd;
+    functions.push({
+      index: s.funcIndex,
+      name: functionName(code.names, s.funcIndex),
+      wasmSize: wasmSize(code, s.funcIndex),
+      nativeSize: end - begin,
+      instructions: cs.disasm(c.code.subarray(begin, end), begin)
+    });
+  });
+  return { code: code, segments: c.segments, functions: functions };
+}
+
+let sourceLines: { [index: string]: string[] } =
+  options.sourceLines ? JSON.parse(read(options.sourceLines)) : {};
+
+function functionSourceLines(f: DisassembledFunction): string[] {
+  return sourceLines[f.index] || [];
+}
+
+let filter = options.cfg || options.functionFilter;
+let disassembled = disassembleModule(readWasm(options.input), filter);
+let functions = disassembled.functions;
+if (filter && functions.length === 0) {
+  throw new Error(`No function matches "${filter}".`);
+}
+
+function findBasicBlocks(instructions: Instruction[]) {
   var basicBlocks = {};
   instructions.forEach(function(instr, i) {
     assemblyInstructionsByAddress[instr.address] = instr;
@@ -186,23 +223,402 @@ function printInstructions(instructions: Instruction[]) {
       }
     }
   });
+  return basicBlocks;
+}
+
+function formatInstructions(instructions: Instruction[]): string[] {
+  var pretty = true;
+  var basicBlocks = findBasicBlocks(instructions);
+  var width = 50;
   instructions.forEach(function(instr) {
+    width = Math.max(width, instr.mnemonic.length + instr.op_str.length + 2);
+  });
+  return instructions.map(function(instr) {
     let s = "";
     if (pretty) {
       if (basicBlocks[instr.address]) {
-        s += " " + padRight(toAddress(instr.address) + ":", 51, " ");
+        s += " " + padRight(toAddress(instr.address) + ":", width + 1, " ");
         if (basicBlocks[instr.address].length > 0) {
           s += "; " + toAddress(instr.address) + " from: [" + basicBlocks[instr.address].map(toAddress).join(", ") + "]";
         }
         s += "\n";
       }
-      s += "  " + padRight(instr.mnemonic + " " + instr.op_str, 50, " ");
+      s += "  " + padRight(instr.mnemonic + " " + instr.op_str, width, " ");
       s += "; " + toAddress(instr.address) + " " + toBytes(instr.bytes);
     } else {
-      s = padRight(instr.mnemonic + " " + instr.op_str, 50, " ") + " " + toBytes(instr.bytes);
+      s = padRight(instr.mnemonic + " " + instr.op_str, width, " ") + " " + toBytes(instr.bytes);
+    }
+    return s;
+  });
+}
+
+function printInstructions(instructions: Instruction[]) {
+  formatInstructions(instructions).forEach(line => console.log(line));
+}
+
+function instructionToJSON(instr: Instruction) {
+  return {
+    address: instr.address,
+    bytes: toBytes(instr.bytes),
+    mnemonic: instr.mnemonic,
+    operands: instr.op_str
+  };
+}
+
+interface BasicBlock {
+  id: number;
+  start: number;
+  end: number;
+  instructions: Instruction[];
+  // Targets of the calls made by the block, by function name when known.
+  calls: string[];
+  // How control leaves the function from this block, if it does: "return",
+  // "trap", "indirect" (a jump through a register or memory) or "tailcall"
+  // (a jump out of the function).
+  exit: string;
+}
+
+interface ControlFlowEdge {
+  from: number;
+  to: number;
+  kind: string; // "branch" or "fallthrough"
+}
+
+interface ControlFlowGraph {
+  name: string;
+  index: number;
+  blocks: BasicBlock[];
+  edges: ControlFlowEdge[];
+}
+
+function functionAtAddress(address: number): string {
+  for (let i = 0; i < disassembled.segments.length; i++) {
+    let s = disassembled.segments[i];
+    if (s.funcIndex !== undefined && s.begin <= address && address < s.end) {
+      return functionName(disassembled.code.names, s.funcIndex);
+    }
+  }
+  return null;
+}
+
+function isUnconditionalJump(instr: Instruction) {
+  return instr.mnemonic === "jmp";
+}
+
+function endsBasicBlock(instr: Instruction) {
+  return isBranch(instr) || instr.mnemonic === "ret" || instr.mnemonic === "ud2";
+}
+
+/**
+ * Splits the native code of a function into basic blocks and connects them
+ * with branch and fallthrough edges. Jumps whose target can't be determined
+ * statically or that leave the function end the graph at their block.
+ */
+function buildControlFlowGraph(f: DisassembledFunction): ControlFlowGraph {
+  let instructions = f.instructions;
+  let begin = instructions.length > 0 ? instructions[0].address : 0;
+  let last = instructions[instructions.length - 1];
+  let end = last ? last.address + last.size : 0;
+  let insideFunction = (address: number) => begin <= address && address < end;
+
+  let leaders = Object.create(null);
+  if (instructions.length > 0) leaders[begin] = true;
+  instructions.forEach((instr, i) => {
+    if (!endsBasicBlock(instr)) return;
+    let target = parseInt(instr.op_str);
+    if (isBranch(instr) && insideFunction(target)) leaders[target] = true;
+    if (i + 1 < instructions.length) leaders[instructions[i + 1].address] = true;
+  });
+
+  let blocks: BasicBlock[] = [];
+  let blockByAddress = Object.create(null);
+  instructions.forEach(instr => {
+    if (leaders[instr.address]) {
+      let block = {
+        id: blocks.length, start: instr.address, end: instr.address,
+        instructions: [], calls: [], exit: null
+      };
+      blocks.push(block);
+      blockByAddress[instr.address] = block;
+    }
+    let current = blocks[blocks.length - 1];
+    current.instructions.push(instr);
+    current.end = instr.address + instr.size;
+    if (instr.mnemonic === "call") {
+      let target = parseInt(instr.op_str);
+      current.calls.push(isNaN(target) ? instr.op_str : (functionAtAddress(target) || toAddress(target)));
+    }
+  });
+
+  let edges: ControlFlowEdge[] = [];
+  blocks.forEach((block, i) => {
+    let instr = block.instructions[block.instructions.length - 1];
+    let next = blocks[i + 1];
+    if (instr.mnemonic === "ret") {
+      block.exit = "return";
+      return;
+    }
+    if (instr.mnemonic === "ud2") {
+      block.exit = "trap";
+      return;
+    }
+    if (isBranch(instr)) {
+      let target = parseInt(instr.op_str);
+      if (isNaN(target)) {
+        block.exit = "indirect";
+      } else if (!insideFunction(target) || !blockByAddress[target]) {
+        block.exit = "tailcall";
+      } else {
+        edges.push({ from: block.id, to: blockByAddress[target].id, kind: "branch" });
+      }
+      if (isUnconditionalJump(instr)) return;
+    }
+    if (next) edges.push({ from: block.id, to: next.id, kind: "fallthrough" });
+  });
+  return { name: f.name, index: f.index, blocks: blocks, edges: edges };
+}
+
+function escapeDOT(s: string): string {
+  return s.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+function formatControlFlowGraphDOT(cfg: ControlFlowGraph): string {
+  let lines = [`digraph "${escapeDOT(cfg.name)}" {`];
+  lines.push(`  node [shape=box, fontname="monospace"];`);
+  let exits = Object.create(null);
+  cfg.blocks.forEach(block => {
+    let label = toAddress(block.start) + ":\\l" + block.instructions.map(instr =>
+      escapeDOT(instr.mnemonic + " " + instr.op_str) + "\\l").join("");
+    lines.push(`  b${block.id} [label="${label}"];`);
+    block.calls.forEach(callee => {
+      lines.push(`  b${block.id} -> "call ${escapeDOT(callee)}" [style=dotted];`);
+    });
+    if (block.exit) {
+      exits[block.exit] = true;
+      lines.push(`  b${block.id} -> ${block.exit};`);
+    }
+  });
+  Object.keys(exits).forEach(exit => {
+    lines.push(`  ${exit} [shape=oval];`);
+  });
+  cfg.edges.forEach(edge => {
+    let style = edge.kind === "fallthrough" ? " [style=dashed]" : "";
+    lines.push(`  b${edge.from} -> b${edge.to}${style};`);
+  });
+  lines.push(`}`);
+  return lines.join("\n");
+}
+
+function controlFlowGraphToJSON(cfg: ControlFlowGraph) {
+  return {
+    name: cfg.name,
+    index: cfg.index,
+    blocks: cfg.blocks.map(block => ({
+      id: block.id,
+      start: block.start,
+      end: block.end,
+      calls: block.calls,
+      exit: block.exit,
+      instructions: block.instructions.map(instructionToJSON)
+    })),
+    edges: cfg.edges
+  };
+}
+
+function escapeHTML(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function printHTMLReport() {
+  console.log(`<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHTML(options.input)}</title>
+<style>
+body { font-family: sans-serif; }
+summary { cursor: pointer; font-family: monospace; }
+pre { margin: 0.5em 2em; }
+.size { color: #777; }
+</style>
+</head>
+<body>
+<h1>${escapeHTML(options.input)}</h1>
+<p>${functions.length} function(s)</p>`);
+  functions.forEach(f => {
+    console.log(`<details id="func${f.index}">
+<summary>${escapeHTML(f.name)} <span class="size">[${f.index}] wasm: ${f.wasmSize} bytes, native: ${f.nativeSize} bytes</span></summary>
+<pre>${escapeHTML(functionSourceLines(f).map(line => "; " + line + "\n").join("") +
+                formatInstructions(f.instructions).join("\n"))}</pre>
+</details>`);
+  });
+  console.log(`</body>
+</html>`);
+}
+
+interface FunctionDiff {
+  name: string;
+  oldFunction: DisassembledFunction;
+  newFunction: DisassembledFunction;
+  // Lines of the normalized instruction diff, prefixed with " ", "-" or "+".
+  lines: string[];
+}
+
+/**
+ * Formats an instruction without the absolute addresses, which shift whenever
+ * any code before it changes: branch targets inside the function become
+ * offsets from its start, other jump and call targets and rip-relative
+ * displacements are elided.
+ */
+function normalizeInstruction(instr: Instruction, f: DisassembledFunction): string {
+  let operands = instr.op_str;
+  if (isBranch(instr) || instr.mnemonic === "call") {
+    let target = parseInt(operands);
+    if (!isNaN(target)) {
+      let begin = f.instructions[0].address;
+      let inside = begin <= target && target < begin + f.nativeSize;
+      operands = inside ? "L+0x" + (target - begin).toString(16) : "<external>";
+    }
+  }
+  operands = operands.replace(/rip ([+-]) 0x[0-9a-f]+/g, "rip $1 <disp>");
+  return instr.mnemonic + " " + operands;
+}
+
+/**
+ * Matches the functions of two builds by name, or by index for functions
+ * without a name section entry, and diffs their normalized instructions.
+ */
+function diffModules(oldModule: DisassembledModule, newModule: DisassembledModule): FunctionDiff[] {
+  let key = (f: DisassembledFunction, m: DisassembledModule) =>
+    m.code.names[f.index] ? "name:" + f.name : "index:" + f.index;
+  let oldByKey = Object.create(null);
+  oldModule.functions.forEach(f => oldByKey[key(f, oldModule)] = f);
+  let normalize = (f: DisassembledFunction) =>
+    f ? f.instructions.map(instr => normalizeInstruction(instr, f)) : [];
+  let diff = (oldFunction: DisassembledFunction, newFunction: DisassembledFunction) => ({
+    name: (newFunction || oldFunction).name,
+    oldFunction: oldFunction,
+    newFunction: newFunction,
+    lines: diffLines(normalize(oldFunction), normalize(newFunction)).map(line => line.op + line.text)
+  });
+  let diffs = newModule.functions.map(f => {
+    let k = key(f, newModule);
+    let old = oldByKey[k] || null;
+    delete oldByKey[k];
+    return diff(old, f);
+  });
+  Object.keys(oldByKey).forEach(k => diffs.push(diff(oldByKey[k], null)));
+  return diffs;
+}
+
+function isChanged(d: FunctionDiff): boolean {
+  return d.lines.some(line => line[0] !== " ");
+}
+
+function signed(n: number): string {
+  return (n > 0 ? "+" : "") + n;
+}
+
+// Keeps the changed lines and a few lines of context around them.
+function contextLines(lines: string[], context: number): string[] {
+  let keep = lines.map(line => line[0] !== " ");
+  let result = [];
+  let skipped = false;
+  lines.forEach((line, i) => {
+    let near = false;
+    for (let j = Math.max(0, i - context); j <= Math.min(lines.length - 1, i + context); j++) {
+      if (keep[j]) near = true;
+    }
+    if (near) {
+      if (skipped) result.push("  ...");
+      result.push(line[0] + " " + line.substr(1));
+      skipped = false;
+    } else {
+      skipped = true;
     }
-    console.log(s);
   });
+  if (skipped) result.push("  ...");
+  return result;
+}
+
+function printDiff(oldFile: string, newFile: string) {
+  let oldModule = disassembleModule(readWasm(oldFile), options.functionFilter);
+  let diffs = diffModules(oldModule, disassembled).filter(isChanged);
+  let count = (f: DisassembledFunction) => f ? f.instructions.length : 0;
+  let size = (f: DisassembledFunction) => f ? f.nativeSize : 0;
+  if (options.format === "json") {
+    console.log(JSON.stringify(diffs.map(d => ({
+      name: d.name,
+      oldIndex: d.oldFunction ? d.oldFunction.index : null,
+      newIndex: d.newFunction ? d.newFunction.index : null,
+      oldInstructions: count(d.oldFunction),
+      newInstructions: count(d.newFunction),
+      oldSize: size(d.oldFunction),
+      newSize: size(d.newFunction),
+      diff: d.lines
+    })), null, 2));
+    return;
+  }
+  if (diffs.length === 0) {
+    console.log("No changes in the compiled code.");
+    return;
+  }
+  console.log(`${padRight("Instructions", 20, " ")} ${padRight("Bytes", 20, " ")} Function`);
+  diffs.forEach(d => {
+    let instructions = `${signed(count(d.newFunction) - count(d.oldFunction))} (${count(d.oldFunction)} -> ${count(d.newFunction)})`;
+    let bytes = `${signed(size(d.newFunction) - size(d.oldFunction))} (${size(d.oldFunction)} -> ${size(d.newFunction)})`;
+    let status = !d.oldFunction ? " (added)" : !d.newFunction ? " (removed)" : "";
+    console.log(`${padRight(instructions, 20, " ")} ${padRight(bytes, 20, " ")} ${d.name}${status}`);
+  });
+  diffs.forEach(d => {
+    console.log("");
+    console.log(`--- ${oldFile} ${d.oldFunction ? d.oldFunction.name : "(none)"}`);
+    console.log(`+++ ${newFile} ${d.newFunction ? d.newFunction.name : "(none)"}`);
+    contextLines(d.lines, 3).forEach(line => console.log(line));
+  });
+}
+
+function printControlFlowGraphs() {
+  let graphs = functions.map(buildControlFlowGraph);
+  if (options.format === "json") {
+    console.log(JSON.stringify(graphs.map(controlFlowGraphToJSON), null, 2));
+  } else {
+    graphs.forEach(cfg => console.log(formatControlFlowGraphDOT(cfg)));
+  }
+}
+
+function printDisassembly() {
+  switch (options.format) {
+    case "json":
+      console.log(JSON.stringify(functions.map(f => ({
+        name: f.name,
+        index: f.index,
+        wasmSize: f.wasmSize,
+        nativeSize: f.nativeSize,
+        source: functionSourceLines(f),
+        instructions: f.instructions.map(instructionToJSON)
+      })), null, 2));
+      break;
+    case "html":
+      printHTMLReport();
+      break;
+    default:
+      if (!options.functionFilter) printFunctionMetrics(disassembled.code);
+      functions.forEach(f => {
+        console.log(f.name + ":");
+        functionSourceLines(f).forEach(line => console.log("  ; " + line));
+        printInstructions(f.instructions);
+      });
+      break;
+  }
+}
+
+if (options.diff) {
+  printDiff(options.diff, options.input);
+} else if (options.cfg) {
+  printControlFlowGraphs();
+} else {
+  printDisassembly();
 }
 
 cs.close();
@@ -0,0 +1,38 @@
+(module
+  (import "env" "memory" (memory 256))
+  (import "env" "DYNAMICTOP_PTR" (global $DYNAMICTOP_PTR i32))
+  (import "env" "enlargeMemory" (func $enlargeMemory (result i32)))
+  (import "env" "getTotalMemory" (func $getTotalMemory (result i32)))
+  (export "_test" (func $test))
+  ;; sbrk as in Emscripten's malloc: moves the dynamic top, and enlarges the
+  ;; memory when the top goes past its end.
+  (func $sbrk (param $increment i32) (result i32)
+    (local $old i32)
+    (local $new i32)
+    (set_local $old (i32.load (get_global $DYNAMICTOP_PTR)))
+    (set_local $new (i32.add (get_local $old) (get_local $increment)))
+    (i32.store (get_global $DYNAMICTOP_PTR) (get_local $new))
+    (if (i32.gt_u (get_local $new) (call $getTotalMemory))
+      (if (i32.eqz (call $enlargeMemory))
+        (block
+          (i32.store (get_global $DYNAMICTOP_PTR) (get_local $old))
+          (return (i32.const -1)))))
+    (get_local $old)
+  )
+  ;; Allocates 24 MB in 4 MB chunks, past the initial 16 MB, and writes to the
+  ;; end of each chunk. Then checks that allocating past the maximum fails.
+  (func $test (result i32)
+    (local $i i32)
+    (local $p i32)
+    (block $done
+      (loop $next
+        (br_if $done (i32.ge_u (get_local $i) (i32.const 6)))
+        (set_local $p (call $sbrk (i32.const 4194304)))
+        (if (i32.eq (get_local $p) (i32.const -1))
+          (return (i32.const 0)))
+        (i32.store8 (i32.add (get_local $p) (i32.const 4194303)) (i32.const 1))
+        (set_local $i (i32.add (get_local $i) (i32.const 1)))
+        (br $next)))
+    (i32.eq (call $sbrk (i32.const 1073741824)) (i32.const -1))
+  )
+)
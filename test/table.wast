@@ -0,0 +1,16 @@
+(module
+  (type $ret (func (result i32)))
+  (import "env" "memory" (memory 256))
+  ;; Emscripten side modules declare the table they need, here with a
+  ;; maximum, which only a table that has one satisfies.
+  (import "env" "table" (table 2 4 anyfunc))
+  (import "env" "tableBase" (global $tableBase i32))
+  (elem (get_global $tableBase) $one $two)
+  (export "_test" (func $test))
+  (func $one (result i32) (i32.const 1))
+  (func $two (result i32) (i32.const 2))
+  ;; Calls the second function of the module's table range.
+  (func $test (result i32)
+    (call_indirect $ret (i32.add (get_global $tableBase) (i32.const 1)))
+  )
+)
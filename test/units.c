@@ -0,0 +1,10 @@
+// Test exports built and run by `wasdk test test/units.json`, with the
+// results expected in test/units.golden.json.
+
+int test_sum(void)
+{
+  int sum = 0;
+  for (int i = 1; i <= COUNT; i++)
+    sum += i;
+  return sum;
+}